@@ -2,6 +2,7 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider } from './context/AuthContext';
+import { ConnectionProvider } from './context/ConnectionContext';
 import MainLayout from './components/Layout/MainLayout';
 import ProtectedRoute from './components/ProtectedRoute';
 
@@ -11,6 +12,9 @@ import Login from './pages/Login';
 import Register from './pages/Register';
 import Profile from './pages/Profile';
 import GameRoom from './pages/GameRoom';
+import PracticeRoom from './pages/PracticeRoom';
+import Analysis from './pages/Analysis';
+import Replay from './pages/Replay';
 import Tournaments from './pages/Tournaments';
 import TournamentDetail from './pages/TournamentDetail';
 import Leaderboard from './pages/Leaderboard';
@@ -23,28 +27,34 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <Router>
         <AuthProvider>
-          <Routes>
-            <Route path="/" element={<MainLayout><Home /></MainLayout>} />
-            <Route path="/login" element={<Login />} />
-            <Route path="/register" element={<Register />} />
-            
-            {/* Protected Routes */}
-            <Route element={<ProtectedRoute />}>
-              <Route path="/profile" element={<MainLayout><Profile /></MainLayout>} />
-              <Route path="/game/:gameType" element={<GameRoom />} />
-              <Route path="/tournaments" element={<MainLayout><Tournaments /></MainLayout>} />
-              <Route path="/tournament/:id" element={<MainLayout><TournamentDetail /></MainLayout>} />
-            </Route>
-            
-            <Route path="/leaderboard" element={<MainLayout><Leaderboard /></MainLayout>} />
-            
-            {/* Admin Routes */}
-            <Route element={<ProtectedRoute adminOnly />}>
-              <Route path="/admin/*" element={<AdminPanel />} />
-            </Route>
-            
-            <Route path="*" element={<Navigate to="/" />} />
-          </Routes>
+          <ConnectionProvider>
+            <Routes>
+              <Route path="/" element={<MainLayout><Home /></MainLayout>} />
+              <Route path="/login" element={<Login />} />
+              <Route path="/register" element={<Register />} />
+              <Route path="/practice/:gameType" element={<PracticeRoom />} />
+              <Route path="/analysis/:gameType" element={<Analysis />} />
+              
+              {/* Protected Routes */}
+              <Route element={<ProtectedRoute />}>
+                <Route path="/profile" element={<MainLayout><Profile /></MainLayout>} />
+                <Route path="/game/:gameType" element={<GameRoom />} />
+                <Route path="/game/:gameType/:gameId" element={<GameRoom />} />
+                <Route path="/replay/:gameId" element={<Replay />} />
+                <Route path="/tournaments" element={<MainLayout><Tournaments /></MainLayout>} />
+                <Route path="/tournament/:id" element={<MainLayout><TournamentDetail /></MainLayout>} />
+              </Route>
+              
+              <Route path="/leaderboard" element={<MainLayout><Leaderboard /></MainLayout>} />
+              
+              {/* Admin Routes */}
+              <Route element={<ProtectedRoute adminOnly />}>
+                <Route path="/admin/*" element={<AdminPanel />} />
+              </Route>
+              
+              <Route path="*" element={<Navigate to="/" />} />
+            </Routes>
+          </ConnectionProvider>
         </AuthProvider>
       </Router>
     </QueryClientProvider>
@@ -0,0 +1,57 @@
+import React from 'react';
+import { ANALYSIS_SCORE_CAP } from '../../services/analysisService';
+
+interface EvaluationGraphProps {
+  // Evaluation of the start position and after every move
+  evaluations: number[];
+  selectedPly: number;
+  onSelect: (ply: number) => void;
+  // Plies to highlight, e.g. blunders
+  markers?: { ply: number; className: string }[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+// Advantage over the game: above the middle line favours the side that moved first
+const EvaluationGraph: React.FC<EvaluationGraphProps> = ({ evaluations, selectedPly, onSelect, markers = [] }) => {
+  const step = WIDTH / Math.max(1, evaluations.length - 1);
+  const x = (ply: number) => ply * step;
+  const y = (score: number) => HEIGHT / 2 - (score / ANALYSIS_SCORE_CAP) * (HEIGHT / 2);
+
+  const line = evaluations.map((score, ply) => `${x(ply)},${y(score)}`).join(' ');
+  const area = `0,${HEIGHT / 2} ${line} ${x(evaluations.length - 1)},${HEIGHT / 2}`;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-40 bg-gray-800 rounded"
+      preserveAspectRatio="none"
+      role="img"
+      aria-label="Evaluation graph"
+    >
+      <polygon points={area} className="fill-gray-100 opacity-80" />
+      <line x1={0} y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} className="stroke-gray-500" />
+      <line x1={x(selectedPly)} y1={0} x2={x(selectedPly)} y2={HEIGHT} className="stroke-primary-500" strokeWidth={2} />
+
+      {markers.map(({ ply, className }) => (
+        <circle key={ply} cx={x(ply)} cy={y(evaluations[ply])} r={4} className={className} />
+      ))}
+
+      {/* Invisible columns make every ply clickable */}
+      {evaluations.map((_, ply) => (
+        <rect
+          key={ply}
+          x={x(ply) - step / 2}
+          y={0}
+          width={step}
+          height={HEIGHT}
+          fill="transparent"
+          onClick={() => onSelect(ply)}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default EvaluationGraph;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { caroRules, CaroGameState, CaroStone } from '../../services/games';
+import { SocketEvents } from '../../services/websocketService';
+import { GameBoardProps } from './types';
+
+const STONE_CLASSES: Record<CaroStone, string> = {
+  x: 'text-red-600',
+  o: 'text-blue-600'
+};
+
+const CaroGame: React.FC<GameBoardProps> = ({ game, gameState, onMove }) => {
+  const state = gameState as CaroGameState | undefined;
+
+  if (!state) {
+    return <p className="text-center text-gray-500">Waiting for the game to start...</p>;
+  }
+
+  const result = caroRules.checkGameOver(state);
+  const winningCells = new Set((state.winningLine || []).map(([row, col]) => `${row},${col}`));
+  const lastMove = state.moveHistory[state.moveHistory.length - 1];
+  // Small boards get big cells, full-size Caro boards have to fit on screen
+  const cellSize = state.size <= 5 ? 'w-16 h-16 text-4xl' : 'w-8 h-8 text-lg';
+
+  const placeStone = (row: number, col: number) => {
+    const move = { row, col };
+    if (!caroRules.validateMove(state, move)) return;
+    onMove(SocketEvents.PLAYER_MOVE, { gameId: game.id, move });
+  };
+
+  const status = result.isDraw
+    ? 'Draw - the board is full'
+    : result.isOver
+      ? `${result.winner!.toUpperCase()} wins!`
+      : `${state.currentTurn.toUpperCase()} to move`;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 flex flex-col items-center space-y-4">
+      <p className="text-lg font-semibold">{status}</p>
+      {state.blockedEnds && (
+        <p className="text-sm text-gray-500">Lines blocked at both ends don't win</p>
+      )}
+      <div
+        className="grid border-l border-t border-gray-400"
+        style={{ gridTemplateColumns: `repeat(${state.size}, minmax(0, 1fr))` }}
+      >
+        {state.board.map((cells, row) =>
+          cells.map((stone, col) => {
+            const isLastMove = lastMove && lastMove.row === row && lastMove.col === col;
+
+            return (
+              <button
+                key={`${row}-${col}`}
+                onClick={() => placeStone(row, col)}
+                disabled={result.isOver || stone !== null}
+                aria-label={`Place a stone at row ${row + 1}, column ${col + 1}`}
+                className={`${cellSize} flex items-center justify-center font-bold border-r border-b border-gray-400 ${
+                  winningCells.has(`${row},${col}`) ? 'bg-green-200' : isLastMove ? 'bg-yellow-100' : 'hover:bg-gray-100'
+                } ${stone ? STONE_CLASSES[stone] : ''}`}
+              >
+                {stone?.toUpperCase()}
+              </button>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CaroGame;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { connectFourRules, ConnectFourDisc, ConnectFourGameState } from '../../services/games';
+import { SocketEvents } from '../../services/websocketService';
+import { GameBoardProps } from './types';
+
+const DISC_CLASSES: Record<ConnectFourDisc, string> = {
+  red: 'bg-red-500',
+  yellow: 'bg-yellow-400'
+};
+
+const ConnectFourGame: React.FC<GameBoardProps> = ({ game, gameState, onMove }) => {
+  const state = gameState as ConnectFourGameState | undefined;
+
+  if (!state) {
+    return <p className="text-center text-gray-500">Waiting for the game to start...</p>;
+  }
+
+  const result = connectFourRules.checkGameOver(state);
+  const winningCells = new Set((state.winningLine || []).map(([row, col]) => `${row},${col}`));
+
+  const dropDisc = (column: number) => {
+    const move = { column };
+    if (!connectFourRules.validateMove(state, move)) return;
+    onMove(SocketEvents.PLAYER_MOVE, { gameId: game.id, move });
+  };
+
+  const status = result.isDraw
+    ? 'Draw - the board is full'
+    : result.isOver
+      ? `${result.winner} wins!`
+      : `${state.currentTurn} to move`;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 flex flex-col items-center space-y-4">
+      <p className="text-lg font-semibold capitalize">{status}</p>
+      <div
+        className="grid gap-2 p-3 bg-blue-700 rounded-lg"
+        style={{ gridTemplateColumns: `repeat(${state.board[0].length}, minmax(0, 1fr))` }}
+      >
+        {state.board.map((cells, row) =>
+          cells.map((disc, col) => (
+            <button
+              key={`${row}-${col}`}
+              onClick={() => dropDisc(col)}
+              disabled={result.isOver}
+              aria-label={`Drop a disc in column ${col + 1}`}
+              className={`w-12 h-12 rounded-full ${disc ? DISC_CLASSES[disc] : 'bg-white hover:bg-blue-100'} ${
+                winningCells.has(`${row},${col}`) ? 'ring-4 ring-green-400' : ''
+              }`}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConnectFourGame;
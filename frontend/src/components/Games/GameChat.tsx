@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import type { ChatMessage } from '../../types/socket';
+
+interface GameChatProps {
+  messages: ChatMessage[];
+  onSend: (message: string) => void;
+  currentUserId?: string;
+  disabled?: boolean;
+}
+
+const GameChat: React.FC<GameChatProps> = ({ messages, onSend, currentUserId, disabled = false }) => {
+  const [draft, setDraft] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const message = draft.trim();
+    if (!message) return;
+
+    onSend(message);
+    setDraft('');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 flex flex-col h-96">
+      <h2 className="font-semibold mb-2">Chat</h2>
+      <ul className="flex-1 overflow-y-auto space-y-1 text-sm">
+        {messages.map(message => (
+          <li key={`${message.userId}-${message.timestamp}`}>
+            <span className={`font-medium ${message.userId === currentUserId ? 'text-primary-600' : ''}`}>
+              {message.username}:
+            </span>{' '}
+            {message.message}
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleSubmit} className="flex gap-2 mt-2">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          disabled={disabled}
+          placeholder="Say something"
+          className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !draft.trim()}
+          className="px-3 py-1 bg-primary-600 text-white rounded text-sm hover:bg-primary-700 disabled:opacity-50"
+        >
+          Send
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default GameChat;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Game } from '../../types';
+import { clockService } from '../../services/clockService';
+import { useGameClock } from '../../hooks/useGameClock';
+
+// Clocks under ten seconds turn red
+const LOW_TIME = 10 * 1000;
+
+const GameClocks: React.FC<{ game: Game }> = ({ game }) => {
+  const { remaining, running } = useGameClock(game.clock, game.timeControl);
+
+  if (!game.clock || !game.timeControl) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-center gap-4">
+      <span className="text-sm text-gray-500">{clockService.formatTimeControl(game.timeControl)}</span>
+      {game.players.map(player => {
+        const time = remaining[player.userId] ?? 0;
+
+        return (
+          <div
+            key={player.userId}
+            className={`flex items-center gap-2 px-3 py-1 rounded ${running === player.userId ? 'bg-primary-100' : 'bg-gray-50'}`}
+          >
+            <span className="text-sm">{player.username}</span>
+            <span className={`font-mono text-lg ${time < LOW_TIME ? 'text-red-600' : ''}`}>
+              {clockService.formatClock(time)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GameClocks;
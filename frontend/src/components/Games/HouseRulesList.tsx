@@ -0,0 +1,38 @@
+import React from 'react';
+import { UnoHouseRules } from '../../types';
+
+const RULE_LABELS: Record<keyof UnoHouseRules, { name: string; description: string }> = {
+  stackDrawTwo: { name: 'Stack +2', description: 'Answer a +2 with another +2' },
+  stackDrawFour: { name: 'Stack +4', description: 'Answer a +4 with another +4' },
+  jumpIn: { name: 'Jump-In', description: 'Play an identical card out of turn' },
+  sevenZero: { name: 'Seven-Zero', description: '7 swaps hands, 0 rotates all hands' },
+  drawToMatch: { name: 'Draw to Match', description: 'Keep drawing until you can play' },
+  forcePlay: { name: 'Forced Play', description: 'A playable drawn card must be played' }
+};
+
+const HouseRulesList: React.FC<{ rules: UnoHouseRules }> = ({ rules }) => {
+  const activeRules = (Object.keys(RULE_LABELS) as (keyof UnoHouseRules)[]).filter(rule => rules[rule]);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <h3 className="font-bold mb-2">House Rules</h3>
+      {activeRules.length === 0 ? (
+        <p className="text-sm text-gray-500">Standard rules</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {activeRules.map(rule => (
+            <span
+              key={rule}
+              title={RULE_LABELS[rule].description}
+              className="px-3 py-1 bg-primary-100 text-primary-800 rounded-full text-sm"
+            >
+              {RULE_LABELS[rule].name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HouseRulesList;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { xiangqiRules, XiangqiColor, XiangqiGameState, XiangqiPiece } from '../../services/games';
+import { SocketEvents } from '../../services/websocketService';
+import { GameBoardProps } from './types';
+
+const PIECE_CHARACTERS: Record<XiangqiColor, Record<XiangqiPiece, string>> = {
+  red: { general: '帥', advisor: '仕', elephant: '相', horse: '傌', chariot: '俥', cannon: '炮', soldier: '兵' },
+  black: { general: '將', advisor: '士', elephant: '象', horse: '馬', chariot: '車', cannon: '砲', soldier: '卒' }
+};
+
+const FILES = 'abcdefghi';
+
+const XiangqiGame: React.FC<GameBoardProps> = ({ game, gameState, onMove, flipped = false }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+  const state = gameState as XiangqiGameState | undefined;
+
+  if (!state) {
+    return <p className="text-center text-gray-500">Waiting for the game to start...</p>;
+  }
+
+  const result = xiangqiRules.checkGameOver(state);
+  const targets = selected ? xiangqiRules.getLegalMovesFrom(state, selected) : [];
+  const lastMove = state.moveHistory[state.moveHistory.length - 1];
+
+  const handleClick = (square: string, color?: XiangqiColor) => {
+    const move = targets.find(m => m.to === square);
+
+    if (move) {
+      onMove(SocketEvents.PLAYER_MOVE, { gameId: game.id, move });
+      setSelected(null);
+    } else {
+      setSelected(color === state.currentTurn && !result.isOver ? square : null);
+    }
+  };
+
+  const status = result.isDraw
+    ? `Draw by ${result.reason}`
+    : result.isOver
+      ? `${result.winner} wins${result.reason ? ` by ${result.reason.replace(/-/g, ' ')}` : ''}!`
+      : `${state.currentTurn} to move${state.inCheck ? ' - check!' : ''}`;
+
+  // Red sits at the bottom, so rank 9 is drawn first; flipped boards put black at the bottom
+  const ranks = state.board.map((_, row) => row);
+  const files = state.board[0].map((_, col) => col);
+  if (flipped) {
+    files.reverse();
+  } else {
+    ranks.reverse();
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 flex flex-col md:flex-row gap-6 justify-center">
+      <div className="flex flex-col items-center space-y-4">
+        <p className="text-lg font-semibold capitalize">{status}</p>
+        <div className="bg-amber-100 border-4 border-amber-800 p-2">
+          {ranks.map(row => (
+            <React.Fragment key={row}>
+              {row === (flipped ? 5 : 4) && (
+                <div className="h-8 flex items-center justify-center text-amber-800 tracking-widest">
+                  楚 河 &nbsp; 漢 界
+                </div>
+              )}
+              <div className="flex">
+                {files.map(col => {
+                  const cell = state.board[row][col];
+                  const square = `${FILES[col]}${row}`;
+                  const isTarget = targets.some(m => m.to === square);
+                  const isLastMove = lastMove && (lastMove.from === square || lastMove.to === square);
+                  // Palaces are the 3x3 squares around each general's starting point
+                  const inPalace = col >= 3 && col <= 5 && (row <= 2 || row >= 7);
+
+                  return (
+                    <button
+                      key={square}
+                      onClick={() => handleClick(square, cell.color)}
+                      aria-label={square}
+                      className={`w-11 h-11 m-px flex items-center justify-center ${
+                        inPalace ? 'bg-amber-200' : ''
+                      } ${isLastMove ? 'bg-yellow-300' : ''} ${isTarget ? 'ring-2 ring-green-500' : ''}`}
+                    >
+                      {cell.piece && (
+                        <span
+                          className={`w-10 h-10 rounded-full border-2 bg-white flex items-center justify-center text-xl ${
+                            cell.color === 'red' ? 'text-red-700 border-red-700' : 'text-gray-900 border-gray-900'
+                          } ${selected === square ? 'ring-4 ring-blue-400' : ''}`}
+                        >
+                          {PIECE_CHARACTERS[cell.color!][cell.piece]}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+
+      <div className="md:w-48">
+        <h3 className="font-bold mb-2">Moves</h3>
+        <ol className="text-sm font-mono grid grid-cols-2 gap-x-4">
+          {state.moveHistory.map((move, index) => (
+            <li key={index} className={index % 2 === 0 ? 'text-red-700' : 'text-gray-900'}>
+              {index % 2 === 0 && `${index / 2 + 1}. `}{move.notation}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+};
+
+export default XiangqiGame;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { GameType } from '../../types';
+import { GameBoardProps } from './types';
+import UnoGame from './UnoGame';
+import ChessGame from './ChessGame';
+import CheckersGame from './CheckersGame';
+import ConnectFourGame from './ConnectFourGame';
+import CaroGame from './CaroGame';
+import XiangqiGame from './XiangqiGame';
+
+export type { GameBoardProps } from './types';
+
+// Board component for each game type, alongside its rules in services/games
+export const gameBoards: Record<GameType, React.ComponentType<GameBoardProps>> = {
+  [GameType.UNO]: UnoGame,
+  [GameType.CHESS]: ChessGame,
+  [GameType.CHECKERS]: CheckersGame,
+  [GameType.CONNECT_FOUR]: ConnectFourGame,
+  [GameType.CARO]: CaroGame,
+  [GameType.XIANGQI]: XiangqiGame
+};
@@ -0,0 +1,11 @@
+import { Game } from '../../types';
+import { SocketEvents, ClientEventPayload } from '../../types/socket';
+
+export interface GameBoardProps {
+  game: Game;
+  // Rules-engine state from the latest game update
+  gameState?: unknown;
+  onMove: (event: SocketEvents.PLAYER_MOVE, data: ClientEventPayload<SocketEvents.PLAYER_MOVE>) => void;
+  // Draw the board from the second player's side
+  flipped?: boolean;
+}
@@ -0,0 +1,63 @@
+import React from 'react';
+import { UnoCard, UnoGameState } from '../../services/games';
+
+const CARD_CLASSES: Record<UnoCard['color'], string> = {
+  red: 'bg-red-500 text-white',
+  blue: 'bg-blue-500 text-white',
+  green: 'bg-green-500 text-white',
+  yellow: 'bg-yellow-400 text-gray-900',
+  wild: 'bg-gray-900 text-white'
+};
+
+const CARD_LABELS: Record<string, string> = {
+  skip: '⊘',
+  reverse: '⇄',
+  draw2: '+2',
+  wild: 'W',
+  draw4: '+4'
+};
+
+const Card: React.FC<{ card: UnoCard }> = ({ card }) => (
+  <span
+    title={card.id}
+    className={`w-8 h-12 rounded border-2 border-white shadow flex items-center justify-center text-sm font-bold ${CARD_CLASSES[card.color]}`}
+  >
+    {CARD_LABELS[card.value] ?? card.value}
+  </span>
+);
+
+// Every hand face up, for watching a finished UNO game back
+const UnoHands: React.FC<{ state: UnoGameState; usernames: Record<string, string> }> = ({ state, usernames }) => {
+  const topCard = state.discardPile[state.discardPile.length - 1];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex items-center gap-4">
+        {topCard && <Card card={topCard} />}
+        <span className="text-sm text-gray-600">
+          Colour: <span className="capitalize font-semibold">{state.currentColor ?? topCard?.color}</span>
+          {' · '}{state.direction === 1 ? 'Clockwise' : 'Counter-clockwise'}
+          {state.drawStack > 0 && ` · +${state.drawStack} stacked`}
+          {' · '}{state.deck.length} cards in the deck
+        </span>
+      </div>
+
+      {state.players.map(playerId => {
+        const hand = state.playerHands.get(playerId) || [];
+
+        return (
+          <div key={playerId}>
+            <p className={`text-sm mb-1 ${playerId === state.currentPlayer ? 'font-bold text-primary-600' : 'text-gray-700'}`}>
+              {usernames[playerId] || playerId} ({hand.length})
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {hand.map(card => <Card key={card.id} card={card} />)}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default UnoHands;
@@ -0,0 +1,44 @@
+import React, { createContext, useContext, useEffect } from 'react';
+import { wsService, ConnectionState } from '../services/websocketService';
+import { useConnectionState } from '../hooks/useConnectionState';
+import { useAuth } from './AuthContext';
+
+interface ConnectionContextType {
+  socket: typeof wsService;
+  connectionState: ConnectionState;
+}
+
+const ConnectionContext = createContext<ConnectionContextType | undefined>(undefined);
+
+// The app's one game-server connection, opened once signed in and closed on logout.
+// Pages join rooms and listen for events through the hooks in hooks/useRoom
+export const ConnectionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+  const connectionState = useConnectionState();
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    wsService.connect().catch((error: Error) => {
+      console.error('WebSocket connection failed:', error.message);
+    });
+
+    return () => {
+      wsService.disconnect();
+    };
+  }, [isAuthenticated]);
+
+  return (
+    <ConnectionContext.Provider value={{ socket: wsService, connectionState }}>
+      {children}
+    </ConnectionContext.Provider>
+  );
+};
+
+export const useConnection = () => {
+  const context = useContext(ConnectionContext);
+  if (!context) {
+    throw new Error('useConnection must be used within ConnectionProvider');
+  }
+  return context;
+};
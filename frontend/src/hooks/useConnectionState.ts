@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { wsService, ConnectionState } from '../services/websocketService';
+
+// Connecting, online, reconnecting or offline, for banners and disabled controls
+export const useConnectionState = (): ConnectionState =>
+  useSyncExternalStore(wsService.onConnectionStateChange, wsService.getConnectionState);
@@ -1,10 +1,18 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Game, GameType, GameStatus } from '../types';
 import { gameService } from '../services/gameService';
-import { wsService, SocketEvents } from '../services/websocketService';
-import { gameLogicService } from '../services/gameLogicService';
+import { SocketEvents, SocketTimeoutError } from '../services/websocketService';
+import type { ChatMessage } from '../types/socket';
+import { gameLogicService, GameMoveMap, GameOverResult, GameStateMap, UnoMove } from '../services/gameLogicService';
+import { predictionService, Prediction } from '../services/predictionService';
+import { clockService } from '../services/clockService';
+import { analysisService } from '../services/analysisService';
+import type { AnalysisLocationState } from '../pages/Analysis';
 import { useAuth } from '../context/AuthContext';
+import { useGameClock } from './useGameClock';
+import { useConnection } from '../context/ConnectionContext';
+import { useRoom, useSocketEvent } from './useRoom';
 
 interface UseGameOptions {
   gameType: GameType;
@@ -12,42 +20,86 @@ interface UseGameOptions {
   isSpectator?: boolean;
 }
 
+interface GameEndResult extends GameOverResult {
+  message: string;
+}
+
+interface UnoAnnouncement {
+  type: 'call' | 'challenge';
+  playerId: string;
+  targetPlayerId?: string;
+  penalty?: number;
+}
+
+// Moves that may be made while another player is to move: UNO calls, challenges and
+// jump-ins (plays), and draw offers and replies. The rules engine checks the rest
+const isOutOfTurnMove = (gameType: GameType, move: GameMoveMap[GameType]): boolean => {
+  if (gameType === GameType.UNO) {
+    return ['call-uno', 'challenge-uno', 'play'].includes((move as UnoMove).type);
+  }
+  return 'type' in move;
+};
+
 export const useGame = ({ gameType, gameId, isSpectator = false }: UseGameOptions) => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [game, setGame] = useState<Game | null>(null);
-  const [gameState, setGameState] = useState<any>(null);
+  const [gameState, setGameState] = useState<GameStateMap[GameType] | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isMyTurn, setIsMyTurn] = useState(false);
-  const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
+  const [unoAnnouncement, setUnoAnnouncement] = useState<UnoAnnouncement | null>(null);
+  const [gameResult, setGameResult] = useState<GameEndResult | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Our moves are shown before the server confirms them; socket handlers read the
+  // latest prediction through the ref
+  const predictionRef = useRef<Prediction<GameStateMap[GameType], GameMoveMap[GameType]> | null>(null);
+  // Sequence of our last move. Numbering carries on from earlier visits to the game, since
+  // the server treats every move up to the sequence it echoes as already applied
+  const sequenceRef = useRef(0);
+  const clock = useGameClock(game?.clock, game?.timeControl);
+  const { socket, connectionState } = useConnection();
+  // The game's room: the one asked for, or the one matchmaking found
+  const roomId = gameId ?? game?.id;
+  const room = useRoom(roomId);
+  // Clock reading a timeout has already been claimed for
+  const claimedTimeoutRef = useRef<Game['clock']>();
 
-  // Initialize game
+  // Number on from the last move sent to this game, by this or an earlier page
   useEffect(() => {
+    if (roomId) sequenceRef.current = socket.getMoveSequence(roomId);
+  }, [socket, roomId]);
+
+  const showPrediction = useCallback((prediction: Prediction<GameStateMap[GameType], GameMoveMap[GameType]>) => {
+    predictionRef.current = prediction;
+    setGameState(prediction.predicted);
+  }, []);
+
+  // Load the game, or queue for one; the room is joined once there is a game
+  useEffect(() => {
+    let active = true;
+
     const initGame = async () => {
       try {
         setLoading(true);
         setError(null);
 
-        // Connect to WebSocket
-        await wsService.connect();
-
         if (gameId) {
-          // Join existing game
+          // Load existing game
           const gameData = isSpectator 
             ? await gameService.spectateGame(gameId)
             : await gameService.getGame(gameId);
-          
+
+          if (!active) return;
           setGame(gameData);
-          await wsService.joinRoom(gameId);
+          setLoading(false);
         } else {
           // Find new game
-          wsService.emit(SocketEvents.FIND_GAME, { gameType });
+          await socket.connect();
+          socket.emit(SocketEvents.FIND_GAME, { gameType });
         }
-
-        // Setup event listeners
-        setupEventListeners();
       } catch (err: any) {
+        if (!active) return;
         setError(err.message || 'Failed to initialize game');
         setLoading(false);
       }
@@ -55,14 +107,10 @@ export const useGame = ({ gameType, gameId, isSpectator = false }: UseGameOption
 
     initGame();
 
-    // Cleanup
     return () => {
-      if (gameId) {
-        wsService.leaveRoom(gameId);
-      }
-      removeEventListeners();
+      active = false;
     };
-  }, [gameType, gameId, isSpectator]);
+  }, [socket, gameType, gameId, isSpectator]);
 
   // Update turn status
   useEffect(() => {
@@ -71,113 +119,179 @@ export const useGame = ({ gameType, gameId, isSpectator = false }: UseGameOption
     }
   }, [game, user, gameState]);
 
-  // Timer countdown
-  useEffect(() => {
-    if (!isMyTurn || !game?.timeLimit) return;
+  const handleGameEnd = (result: GameOverResult) => {
+    // Summarize the result for the end-of-game panel
+    const isWinner = result.winner === user?.id;
+    const message = result.isDraw 
+      ? result.reason
+        ? `Game ended in a draw by ${result.reason.replace(/-/g, ' ')}!`
+        : "Game ended in a draw!" 
+      : isWinner 
+        ? "Congratulations! You won!" 
+        : "You lost. Better luck next time!";
 
-    const timer = setInterval(() => {
-      setTimeRemaining(prev => {
-        if (prev === null || prev <= 0) {
-          handleTimeout();
-          return null;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => clearInterval(timer);
-  }, [isMyTurn, game?.timeLimit]);
-
-  // Event listeners setup
-  const setupEventListeners = useCallback(() => {
-    // Game found
-    wsService.on<Game>(SocketEvents.GAME_FOUND, (gameData) => {
-      setGame(gameData);
-      setLoading(false);
-      if (gameData.id) {
-        wsService.joinRoom(gameData.id);
-      }
-    });
+    setGameResult({ ...result, isOver: true, message });
+  };
 
-    // Game started
-    wsService.on(SocketEvents.GAME_START, (data) => {
-      setGame(prev => prev ? { ...prev, status: GameStatus.IN_PROGRESS } : null);
-      setGameState(data.gameState);
-      setTimeRemaining(game?.timeLimit || null);
-    });
+  // Game found
+  useSocketEvent(SocketEvents.GAME_FOUND, (gameData) => {
+    setGame(gameData);
+    setLoading(false);
+  });
 
-    // Game updated
-    wsService.on(SocketEvents.GAME_UPDATE, (data) => {
-      setGameState(data.gameState);
-      setTimeRemaining(data.timeRemaining || null);
-    });
+  // Game started
+  useSocketEvent(SocketEvents.GAME_START, (data) => {
+    setGame(prev => prev ? { ...prev, status: GameStatus.IN_PROGRESS } : null);
+    const serverState = gameLogicService.parseState(gameType, data.gameState);
+    if (serverState) showPrediction(predictionService.create(serverState));
+    if (data.clock) setGame(prev => prev ? { ...prev, clock: data.clock } : null);
+  });
 
-    // Player joined
-    wsService.on(SocketEvents.PLAYER_JOIN, (data) => {
-      setGame(prev => {
-        if (!prev) return null;
-        return {
-          ...prev,
-          players: [...prev.players, data.player]
-        };
-      });
-    });
+  // Game updated: rebase our unconfirmed moves onto the server's state. The update
+  // carries the sequence number of the last of our moves it includes
+  useSocketEvent(SocketEvents.GAME_UPDATE, (data) => {
+    const current = predictionRef.current;
+    const serverState = gameLogicService.parseState(gameType, data.gameState);
+    if (serverState) {
+      showPrediction(current
+        ? predictionService.reconcile(gameType, current, serverState, data.sequence).prediction
+        : predictionService.create(serverState));
+    }
+    if (data.sequence !== undefined) sequenceRef.current = Math.max(sequenceRef.current, data.sequence);
+    if (data.game) setGame(data.game);
+    if (data.clock) setGame(prev => prev ? { ...prev, clock: data.clock } : null);
+  });
 
-    // Player left
-    wsService.on(SocketEvents.PLAYER_LEAVE, (data) => {
-      setGame(prev => {
-        if (!prev) return null;
-        return {
-          ...prev,
-          players: prev.players.filter(p => p.userId !== data.playerId)
-        };
-      });
+  // Too much was missed while offline to replay it: start again from the room as it is now
+  useSocketEvent(SocketEvents.ROOM_RESYNC, (data) => {
+    if (data.game) setGame(data.game);
+    const serverState = data.gameState === undefined ? undefined : gameLogicService.parseState(gameType, data.gameState);
+    if (serverState) {
+      const current = predictionRef.current;
+      showPrediction(current
+        ? predictionService.reconcile(gameType, current, serverState).prediction
+        : predictionService.create(serverState));
+    }
+  });
+
+  // Player joined
+  useSocketEvent(SocketEvents.PLAYER_JOIN, (data) => {
+    setGame(prev => {
+      if (!prev) return null;
+      return {
+        ...prev,
+        players: [...prev.players, data.player]
+      };
     });
+  });
 
-    // Game ended
-    wsService.on(SocketEvents.GAME_END, (data) => {
-      setGame(prev => prev ? { 
-        ...prev, 
-        status: GameStatus.COMPLETED,
-        winner: data.winner,
-        endedAt: new Date()
-      } : null);
-      
-      // Show result modal
-      handleGameEnd(data);
+  // Player left
+  useSocketEvent(SocketEvents.PLAYER_LEAVE, (data) => {
+    setGame(prev => {
+      if (!prev) return null;
+      return {
+        ...prev,
+        players: prev.players.filter(p => p.userId !== data.playerId)
+      };
     });
+  });
+
+  // UNO declarations and challenges
+  useSocketEvent(SocketEvents.UNO_CALLED, (data) => {
+    setUnoAnnouncement({ type: 'call', playerId: data.playerId });
+  });
 
-    // Error
-    wsService.on(SocketEvents.ERROR, (error) => {
-      setError(error.message);
-      setLoading(false);
+  useSocketEvent(SocketEvents.UNO_CHALLENGED, (data) => {
+    setUnoAnnouncement({
+      type: 'challenge',
+      playerId: data.playerId,
+      targetPlayerId: data.targetPlayerId,
+      penalty: data.penalty
     });
-  }, [game]);
-
-  const removeEventListeners = useCallback(() => {
-    wsService.off(SocketEvents.GAME_FOUND);
-    wsService.off(SocketEvents.GAME_START);
-    wsService.off(SocketEvents.GAME_UPDATE);
-    wsService.off(SocketEvents.PLAYER_JOIN);
-    wsService.off(SocketEvents.PLAYER_LEAVE);
-    wsService.off(SocketEvents.GAME_END);
-    wsService.off(SocketEvents.ERROR);
-  }, []);
+  });
+
+  // Game ended
+  useSocketEvent(SocketEvents.GAME_END, (data) => {
+    setGame(prev => prev ? { 
+      ...prev, 
+      status: GameStatus.COMPLETED,
+      winner: data.winner,
+      endedAt: new Date()
+    } : null);
+    const finalState = data.gameState === undefined ? undefined : gameLogicService.parseState(gameType, data.gameState);
+    if (finalState) showPrediction(predictionService.create(finalState));
+    
+    // Show result modal
+    handleGameEnd(data);
+  });
+
+  // Error; a rejected move is taken back off the board
+  useSocketEvent(SocketEvents.ERROR, (error) => {
+    if (error.sequence !== undefined && predictionRef.current) {
+      showPrediction(predictionService.reject(gameType, predictionRef.current, error.sequence).prediction);
+    }
+    setError(error.message);
+    setLoading(false);
+  });
+
+  // Chat in this game's room
+  useSocketEvent(SocketEvents.CHAT_MESSAGE, (message) => {
+    if (message.roomId === roomId) setMessages(prev => [...prev, message]);
+  });
 
   // Game actions
-  const makeMove = useCallback((move: any) => {
-    if (!game?.id || !isMyTurn || isSpectator) return;
+  const makeMove = useCallback((move: GameMoveMap[GameType]) => {
+    if (!game?.id || isSpectator || !gameState) return;
+
+    // The board rules only know which colour is to move, not which seat is ours
+    if (gameState.currentPlayer !== user?.id && !isOutOfTurnMove(gameType, move)) return;
+
+    // UNO moves say when they were made, for the UNO call window
+    const timedMove = gameType === GameType.UNO ? { timestamp: Date.now(), ...move } : move;
 
-    // Validate move locally first
-    const isValid = gameLogicService.validateMove(gameType, gameState, move);
-    if (!isValid) {
+    // Validate and apply the move locally first
+    const current = predictionRef.current ?? predictionService.create(gameState);
+    const sequence = sequenceRef.current + 1;
+    const prediction = predictionService.predict(gameType, current, timedMove, sequence);
+    if (!prediction) {
       setError('Invalid move');
       return;
     }
 
-    // Send move to server
-    wsService.sendMove(game.id, move);
-  }, [game, isMyTurn, isSpectator, gameType, gameState]);
+    sequenceRef.current = sequence;
+    showPrediction(prediction);
+
+    // Stop our clock as soon as the turn passes; the server's next reading replaces this
+    if (prediction.predicted.currentPlayer !== current.predicted.currentPlayer) {
+      setGame(prev => prev?.clock && prev.timeControl
+        ? { ...prev, clock: clockService.press(prev.clock, prev.timeControl, prediction.predicted.currentPlayer, clock.serverNow()) }
+        : prev);
+    }
+
+    // Send move to server; it is queued through connection drops, and taken back if
+    // the server turns it down or never confirms it
+    socket.sendMove(game.id, timedMove, sequence).catch((err: Error) => {
+      if (predictionRef.current) {
+        showPrediction(predictionService.reject(gameType, predictionRef.current, sequence).prediction);
+      }
+      setError(err instanceof SocketTimeoutError ? 'The server did not confirm your move' : err.message);
+    });
+  }, [socket, game, isSpectator, gameType, gameState, user, showPrediction, clock]);
+
+  const callUno = useCallback(() => {
+    if (!user) return;
+    makeMove({ type: 'call-uno', playerId: user.id });
+  }, [user, makeMove]);
+
+  const challengeUno = useCallback((targetPlayerId: string) => {
+    if (!user) return;
+    makeMove({ type: 'challenge-uno', playerId: user.id, targetPlayerId });
+  }, [user, makeMove]);
+
+  const challengeDrawFour = useCallback(() => {
+    if (!user) return;
+    makeMove({ type: 'challenge-draw4', playerId: user.id });
+  }, [user, makeMove]);
 
   const surrender = useCallback(async () => {
     if (!game?.id || isSpectator) return;
@@ -196,44 +310,59 @@ export const useGame = ({ gameType, gameId, isSpectator = false }: UseGameOption
 
   const sendChatMessage = useCallback((message: string) => {
     if (!game?.id) return;
-    wsService.sendChatMessage(game.id, message);
-  }, [game]);
+    socket.sendChatMessage(game.id, message);
+  }, [socket, game]);
 
   const handleTimeout = useCallback(() => {
     // Auto-play or forfeit on timeout
     if (game?.id) {
-      wsService.emit(SocketEvents.PLAYER_TURN, {
+      socket.emit(SocketEvents.PLAYER_TURN, {
         gameId: game.id,
         timeout: true
       });
     }
-  }, [game]);
+  }, [socket, game]);
 
-  const handleGameEnd = useCallback((result: any) => {
-    // Show game result modal or notification
-    const isWinner = result.winner === user?.id;
-    const message = result.isDraw 
-      ? "Game ended in a draw!" 
-      : isWinner 
-        ? "Congratulations! You won!" 
-        : "You lost. Better luck next time!";
-    
-    // You can implement a modal here
-    alert(message);
-  }, [user]);
+  // Ask the server to rule once a running clock reaches zero on our screen
+  useEffect(() => {
+    const running = clock.running;
+    if (!running || clock.remaining[running] > 0 || claimedTimeoutRef.current === game?.clock) return;
+
+    claimedTimeoutRef.current = game?.clock;
+    handleTimeout();
+  }, [clock, game?.clock, handleTimeout]);
+
+  // Review a finished chess or checkers game move by move
+  const analyzeGame = useCallback(() => {
+    if (!gameState || !analysisService.supportsAnalysis(gameType)) return;
+
+    const state: AnalysisLocationState = { gameState: gameLogicService.serialize(gameType, gameState) };
+    navigate(`/analysis/${gameType}`, { state });
+  }, [gameType, gameState, navigate]);
 
   return {
     game,
     gameState,
     loading,
-    error,
+    error: error ?? room.error,
+    connectionState,
     isMyTurn,
-    timeRemaining,
+    // Time left on our clock and every player's, in ms
+    timeRemaining: user ? clock.remaining[user.id] ?? null : null,
+    clocks: clock.remaining,
+    unoAnnouncement,
+    gameResult,
+    messages,
+    canAnalyze: gameResult !== null && analysisService.supportsAnalysis(gameType),
     actions: {
       makeMove,
+      callUno,
+      challengeUno,
+      challengeDrawFour,
       surrender,
       requestRematch,
-      sendChatMessage
+      sendChatMessage,
+      analyzeGame
     }
   };
 };
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { ClockState, TimeControl } from '../types';
+import { clockService } from '../services/clockService';
+
+// Correspondence clocks only need to move on once a minute
+const TICK_INTERVAL = 100;
+const CORRESPONDENCE_TICK_INTERVAL = 60 * 1000;
+
+// Project the server's last clock reading forward. Times are worked out from the
+// server timestamp each tick rather than counted down, so a throttled background tab
+// or a drifting local clock can't run a clock slow
+export const useGameClock = (clock?: ClockState, control?: TimeControl) => {
+  // Server time minus local time, taken when each reading arrives
+  const [offset, setOffset] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!clock) return;
+    setOffset(clock.serverTime - Date.now());
+    setNow(Date.now());
+  }, [clock]);
+
+  useEffect(() => {
+    if (!clock?.running) return;
+
+    const interval = control?.mode === 'correspondence' ? CORRESPONDENCE_TICK_INTERVAL : TICK_INTERVAL;
+    const timer = setInterval(() => setNow(Date.now()), interval);
+    return () => clearInterval(timer);
+  }, [clock, control?.mode]);
+
+  const serverNow = useCallback(() => Date.now() + offset, [offset]);
+
+  const remaining = useMemo(() => {
+    if (!clock || !control) return {};
+
+    return Object.fromEntries(Object.keys(clock.remaining).map(playerId => [
+      playerId,
+      clockService.getRemaining(clock, control, playerId, now + offset)
+    ])) as Record<string, number>;
+  }, [clock, control, now, offset]);
+
+  return {
+    remaining,
+    running: clock?.running,
+    serverNow
+  };
+};
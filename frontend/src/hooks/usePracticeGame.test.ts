@@ -0,0 +1,89 @@
+import { act, renderHook } from '@testing-library/react';
+import { GameType } from '../types';
+import { gameLogicService, UnoGameState, unoRules } from '../services/gameLogicService';
+import { usePracticeGame, PRACTICE_PLAYER_ID } from './usePracticeGame';
+
+// Bots asked to move, in order. Plain functions, since mock implementations are reset
+// before every test
+jest.mock('../services/aiWorkerService', () => {
+  const requests: (string | undefined)[] = [];
+  return {
+    aiWorkerService: {
+      requests,
+      requestMove: (_gameType: unknown, _state: unknown, _difficulty: unknown, playerId?: string) => {
+        requests.push(playerId);
+        return Promise.resolve(undefined);
+      },
+      cancelAll: () => undefined
+    }
+  };
+});
+
+const { aiWorkerService } = jest.requireMock('../services/aiWorkerService');
+
+describe('usePracticeGame', () => {
+  // The human to move while the bot 'ai-1' is down to one card without having called UNO
+  const missedCall = (players: string[]): UnoGameState => {
+    const state = gameLogicService.createInitialState(GameType.UNO, players, { seed: 'practice' });
+    return {
+      ...state,
+      currentPlayer: PRACTICE_PLAYER_ID,
+      playerHands: new Map(state.playerHands).set('ai-1', state.playerHands.get('ai-1')!.slice(0, 1)),
+      unoCall: { playerId: 'ai-1', called: false, playedAt: Date.now() }
+    };
+  };
+
+  const startPractice = async (state: UnoGameState) => {
+    jest.spyOn(gameLogicService, 'createInitialState').mockReturnValue(state);
+    const { result } = renderHook(() => usePracticeGame({
+      gameType: GameType.UNO,
+      difficulty: 'Hard',
+      opponents: state.players.length - 1
+    }));
+
+    // Let the bot's thinking delay run out
+    await act(async () => {
+      jest.advanceTimersByTime(1000);
+    });
+    return result;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    aiWorkerService.requests.length = 0;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('has another bot catch a missing UNO call during the human turn', async () => {
+    const practice = await startPractice(missedCall([PRACTICE_PLAYER_ID, 'ai-1', 'ai-2']));
+
+    expect(aiWorkerService.requests).toEqual(['ai-2']);
+    expect(practice.current.isMyTurn).toBe(true);
+  });
+
+  it('holds the seed of a dealt UNO game only while it is played', () => {
+    const register = jest.spyOn(unoRules, 'registerSeed');
+    const release = jest.spyOn(unoRules, 'releaseSeed');
+    const { result, unmount } = renderHook(() => usePracticeGame({ gameType: GameType.UNO, difficulty: 'Easy' }));
+    const { seedCommitment } = result.current.gameState as UnoGameState;
+
+    expect(register).toHaveBeenLastCalledWith(seedCommitment, expect.any(String));
+    expect(register.mock.results[register.mock.results.length - 1].value).toBe(true);
+    expect(release).not.toHaveBeenCalledWith(seedCommitment);
+
+    unmount();
+    expect(release).toHaveBeenCalledWith(seedCommitment);
+  });
+
+  it('leaves the challenge to the human when no other bot can make it', async () => {
+    const practice = await startPractice(missedCall([PRACTICE_PLAYER_ID, 'ai-1']));
+
+    expect(aiWorkerService.requests).toEqual([]);
+    expect(practice.current.thinking).toBe(false);
+    expect(practice.current.isMyTurn).toBe(true);
+  });
+});
@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { GameType } from '../types';
+import { gameLogicService } from '../services/gameLogicService';
+import { aiWorkerService } from '../services/aiWorkerService';
+import { AIDifficulty } from '../services/aiService';
+import { GameMoveMap, GameOptionsMap, GameStateMap, UnoGameState, unoRules } from '../services/games';
+import { generateSeed } from '../services/games/random';
+
+export const PRACTICE_PLAYER_ID = 'you';
+
+// Pause before a bot moves so its moves can be followed
+const AI_MOVE_DELAY = 500;
+
+interface UsePracticeGameOptions<T extends GameType> {
+  gameType: T;
+  difficulty: AIDifficulty;
+  // Computer opponents at the table; only UNO seats more than one
+  opponents?: number;
+}
+
+// The bot that should act next: the one to move, or in UNO another bot that can catch
+// a missing call. Without one the challenge is left to the human
+const getActingBot = (gameType: GameType, state: GameStateMap[GameType]): string | undefined => {
+  if (state.currentPlayer !== PRACTICE_PLAYER_ID) return state.currentPlayer;
+
+  if (gameType === GameType.UNO) {
+    const { unoCall, players } = state as UnoGameState;
+    if (unoCall && !unoCall.called) {
+      return players.find(id => id !== unoCall.playerId && id !== PRACTICE_PLAYER_ID);
+    }
+  }
+
+  return undefined;
+};
+
+// Offline game against computer opponents, played entirely on the local rules engine
+export const usePracticeGame = <T extends GameType>({ gameType, difficulty, opponents = 1 }: UsePracticeGameOptions<T>) => {
+  // Seeds of the UNO games dealt here, by commitment
+  const seeds = useRef(new Map<string, string>());
+
+  const createGame = useCallback(() => {
+    const bots = Array.from({ length: opponents }, (_, index) => `ai-${index + 1}`);
+    if (gameType !== GameType.UNO) return gameLogicService.createInitialState(gameType, [PRACTICE_PLAYER_ID, ...bots]);
+
+    const seed = generateSeed();
+    const state = gameLogicService.createInitialState(gameType, [PRACTICE_PLAYER_ID, ...bots], { seed } as GameOptionsMap[T]);
+    seeds.current.set((state as UnoGameState).seedCommitment!, seed);
+    return state;
+  }, [gameType, opponents]);
+
+  const [gameState, setGameState] = useState<GameStateMap[T]>(createGame);
+  const seedCommitment = gameType === GameType.UNO ? (gameState as UnoGameState).seedCommitment : undefined;
+  const [thinking, setThinking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const result = gameLogicService.checkGameOver(gameType, gameState);
+
+  // Start over whenever the game or the table changes
+  useEffect(() => {
+    setGameState(createGame());
+    setError(null);
+  }, [createGame]);
+
+  // Stop any search still running when leaving the page
+  useEffect(() => () => aiWorkerService.cancelAll(), []);
+
+  // The rules engine holds the seed of the UNO game being played, to reshuffle with, and
+  // lets go of it once the game is left
+  useEffect(() => {
+    const seed = seedCommitment && seeds.current.get(seedCommitment);
+    if (!seedCommitment || !seed) return;
+
+    unoRules.registerSeed(seedCommitment, seed);
+    return () => unoRules.releaseSeed(seedCommitment);
+  }, [seedCommitment]);
+
+  const applyIfValid = useCallback((move: GameMoveMap[T]) => {
+    setGameState(state => gameLogicService.validateMove(gameType, state, move)
+      ? gameLogicService.applyMove(gameType, state, move)
+      : state
+    );
+  }, [gameType]);
+
+  // Let the bots play until it's the human's turn again
+  useEffect(() => {
+    const botId = result.isOver ? undefined : getActingBot(gameType, gameState);
+    if (!botId) return;
+
+    let cancelled = false;
+    setThinking(true);
+
+    const timer = setTimeout(() => {
+      aiWorkerService.requestMove(gameType, gameState, difficulty, botId)
+        .then(move => {
+          if (!cancelled && move) applyIfValid(move);
+        })
+        .catch((err: Error) => {
+          if (!cancelled) setError(err.message);
+        })
+        .finally(() => {
+          if (!cancelled) setThinking(false);
+        });
+    }, AI_MOVE_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setThinking(false);
+    };
+  }, [gameType, gameState, difficulty, result.isOver, applyIfValid]);
+
+  // Human moves are ignored on a bot's turn, apart from UNO's out-of-turn calls,
+  // which name their player and are checked by the rules
+  const makeMove = useCallback((move: GameMoveMap[T]) => {
+    if (gameType !== GameType.UNO && gameState.currentPlayer !== PRACTICE_PLAYER_ID) return;
+
+    // UNO moves say when they were made, for the UNO call window
+    applyIfValid(gameType === GameType.UNO ? { timestamp: Date.now(), ...move } : move);
+  }, [gameType, gameState, applyIfValid]);
+
+  const restart = useCallback(() => {
+    aiWorkerService.cancelAll();
+    setGameState(createGame());
+    setError(null);
+  }, [createGame]);
+
+  return {
+    gameState,
+    result,
+    thinking,
+    error,
+    isMyTurn: !result.isOver && gameState.currentPlayer === PRACTICE_PLAYER_ID,
+    makeMove,
+    restart
+  };
+};
@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { GameType } from '../types';
+import { gameService, GameReplay } from '../services/gameService';
+import {
+  gameLogicService,
+  GameMoveMap,
+  GameOptionsMap,
+  GameStateMap,
+  UnoGameState,
+  UnoSetupOptions,
+  unoRules
+} from '../services/gameLogicService';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+// Time between moves during autoplay at normal speed
+const AUTOPLAY_INTERVAL = 1000;
+
+export interface ReplayTimeline {
+  moves: GameMoveMap[GameType][];
+  // Start position followed by the state after each move
+  states: GameStateMap[GameType][];
+}
+
+// Rebuild every intermediate state by running the move log through the rules engine
+const buildTimeline = (replay: GameReplay): ReplayTimeline => {
+  const gameType = replay.game.type;
+  const initialState = replay.initialState
+    ? gameLogicService.deserialize(gameType, replay.initialState)
+    : gameLogicService.createInitialState(
+      gameType,
+      replay.game.players.map(player => player.userId),
+      replay.setup as GameOptionsMap[GameType]
+    );
+
+  const moves = [...replay.moves].sort((a, b) => a.sequence - b.sequence).map(entry => entry.move);
+
+  // UNO reshuffles need the seed revealed at the end of the game, which the rules engine
+  // only holds while the timeline is built
+  const seedCommitment = gameType === GameType.UNO ? (initialState as UnoGameState).seedCommitment : undefined;
+  const seed = (replay.setup as UnoSetupOptions | undefined)?.seed;
+  if (seedCommitment && seed) unoRules.registerSeed(seedCommitment, seed);
+
+  try {
+    return { moves, states: gameLogicService.replayMoves(gameType, initialState, moves) };
+  } finally {
+    if (seedCommitment) unoRules.releaseSeed(seedCommitment);
+  }
+};
+
+export const useReplay = (gameId?: string) => {
+  const [replay, setReplay] = useState<GameReplay | null>(null);
+  const [timeline, setTimeline] = useState<ReplayTimeline>({ moves: [], states: [] });
+  const [ply, setPly] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [flipped, setFlipped] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the move log
+  useEffect(() => {
+    if (!gameId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    gameService.getGameReplay(gameId)
+      .then(data => {
+        if (cancelled) return;
+        setReplay(data);
+        setTimeline(buildTimeline(data));
+        setPly(0);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message || 'Failed to load replay');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId]);
+
+  const { moves, states } = timeline;
+  const lastPly = Math.max(0, states.length - 1);
+
+  // Autoplay stops by itself at the end of the game
+  useEffect(() => {
+    if (!playing) return;
+    if (ply >= lastPly) {
+      setPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(() => setPly(current => Math.min(lastPly, current + 1)), AUTOPLAY_INTERVAL / speed);
+    return () => clearTimeout(timer);
+  }, [playing, ply, lastPly, speed]);
+
+  const seek = useCallback((target: number) => {
+    setPly(Math.max(0, Math.min(lastPly, target)));
+  }, [lastPly]);
+
+  const stepForward = useCallback(() => seek(ply + 1), [seek, ply]);
+  const stepBack = useCallback(() => seek(ply - 1), [seek, ply]);
+
+  const togglePlay = useCallback(() => {
+    // Playing from the end starts over
+    if (!playing && ply >= lastPly) setPly(0);
+    setPlaying(current => !current);
+  }, [playing, ply, lastPly]);
+
+  const flip = useCallback(() => setFlipped(current => !current), []);
+
+  const controls = useMemo(
+    () => ({ seek, stepForward, stepBack, togglePlay, setSpeed, flip }),
+    [seek, stepForward, stepBack, togglePlay, flip]
+  );
+
+  return {
+    replay,
+    moves,
+    states,
+    state: states[ply],
+    ply,
+    lastPly,
+    playing,
+    speed,
+    flipped,
+    loading,
+    error,
+    controls
+  };
+};
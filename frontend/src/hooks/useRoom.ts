@@ -0,0 +1,47 @@
+import { useState, useEffect, useRef } from 'react';
+import { useConnection } from '../context/ConnectionContext';
+import { ServerEvent, ServerEventPayload } from '../types/socket';
+
+// Be in a room while mounted. The connection picks the room back up by itself after a
+// drop, so this only joins on mount or when the room changes
+export const useRoom = (roomId?: string) => {
+  const { socket } = useConnection();
+  const [joined, setJoined] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!roomId) return;
+
+    let active = true;
+    setError(null);
+    socket.connect()
+      .then(() => socket.joinRoom(roomId))
+      .then(
+        () => active && setJoined(true),
+        (err: Error) => active && setError(err.message)
+      );
+
+    return () => {
+      active = false;
+      setJoined(false);
+      socket.leaveRoom(roomId);
+    };
+  }, [socket, roomId]);
+
+  return { joined, error };
+};
+
+// Listen for a server event while mounted. The handler may change every render;
+// the latest one is called without resubscribing
+export const useSocketEvent = <E extends ServerEvent>(event: E, handler: (data: ServerEventPayload<E>) => void) => {
+  const { socket } = useConnection();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    const listener = (data: ServerEventPayload<E>) => handlerRef.current(data);
+
+    socket.on(event, listener);
+    return () => socket.off(event, listener);
+  }, [socket, event]);
+};
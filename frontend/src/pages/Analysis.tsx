@@ -0,0 +1,207 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams, useLocation, Link } from 'react-router-dom';
+import { GameType } from '../types';
+import { gameBoards } from '../components/Games';
+import EvaluationGraph from '../components/Analysis/EvaluationGraph';
+import { getGameRules, isSupportedGame, GameMoveMap } from '../services/games';
+import { gameLogicService } from '../services/gameLogicService';
+import { analysisService, GameAnalysis, MoveClassification } from '../services/analysisService';
+import { aiWorkerService } from '../services/aiWorkerService';
+import { gameService } from '../services/gameService';
+
+// The finished game is handed over in the navigation state, serialized by the rules engine
+export interface AnalysisLocationState {
+  gameState: string;
+}
+
+const CLASSIFICATION_STYLES: Record<MoveClassification, { label: string; description: string; className: string; marker?: string }> = {
+  best: { label: 'Best', description: 'the best move', className: 'text-green-700' },
+  good: { label: 'Good', description: 'good', className: 'text-gray-500' },
+  inaccuracy: { label: '?!', description: 'an inaccuracy', className: 'text-yellow-600', marker: 'fill-yellow-400' },
+  mistake: { label: '?', description: 'a mistake', className: 'text-orange-600', marker: 'fill-orange-500' },
+  blunder: { label: '??', description: 'a blunder', className: 'text-red-600', marker: 'fill-red-600' }
+};
+
+const FLAGGED: MoveClassification[] = ['inaccuracy', 'mistake', 'blunder'];
+
+const Analysis: React.FC = () => {
+  const { gameType } = useParams<{ gameType: string }>();
+  const location = useLocation();
+  const serialized = (location.state as AnalysisLocationState | null)?.gameState;
+
+  if (!gameType || !isSupportedGame(gameType) || !analysisService.supportsAnalysis(gameType)) {
+    return <div className="text-center py-12">Analysis isn't available for this game</div>;
+  }
+  if (!serialized) {
+    return <div className="text-center py-12">There's no finished game to analyze</div>;
+  }
+
+  return <AnalysisBoard gameType={gameType} serialized={serialized} />;
+};
+
+const AnalysisBoard: React.FC<{ gameType: GameType; serialized: string }> = ({ gameType, serialized }) => {
+  const [analysis, setAnalysis] = useState<GameAnalysis<GameMoveMap[GameType]> | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedPly, setSelectedPly] = useState(0);
+
+  const rules = getGameRules(gameType);
+  const finalState = useMemo(() => gameLogicService.deserialize(gameType, serialized), [gameType, serialized]);
+  const positions = useMemo(() => gameLogicService.replayPositions(gameType, finalState), [gameType, finalState]);
+  const history = rules.getMoveHistory ? rules.getMoveHistory(finalState) : [];
+  const formatMove = (move: GameMoveMap[GameType]) => (rules.formatMove ? rules.formatMove(move) : JSON.stringify(move));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    aiWorkerService.analyzeGame(gameType, finalState, undefined, (analyzed, total) => {
+      if (!cancelled) setProgress(analyzed / total);
+    })
+      .then(result => {
+        if (!cancelled) setAnalysis(result);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+      aiWorkerService.cancelAll();
+    };
+  }, [gameType, finalState]);
+
+  // Step through the game with the arrow keys
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') setSelectedPly(ply => Math.max(0, ply - 1));
+      if (e.key === 'ArrowRight') setSelectedPly(ply => Math.min(positions.length - 1, ply + 1));
+    };
+
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [positions.length]);
+
+  const position = positions[selectedPly];
+  const game = gameService.createLocalGame('analysis', gameType, position, gameLogicService.checkGameOver(gameType, position));
+  const GameBoard = gameBoards[gameType];
+  const selectedMove = analysis?.moves[selectedPly - 1];
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="max-w-7xl mx-auto py-8 px-4 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-4">
+          <GameBoard game={game} gameState={position} onMove={() => undefined} />
+
+          <div className="flex justify-center gap-2">
+            <button onClick={() => setSelectedPly(0)} className="px-3 py-1 border rounded">⏮</button>
+            <button onClick={() => setSelectedPly(ply => Math.max(0, ply - 1))} className="px-3 py-1 border rounded">◀</button>
+            <button
+              onClick={() => setSelectedPly(ply => Math.min(positions.length - 1, ply + 1))}
+              className="px-3 py-1 border rounded"
+            >
+              ▶
+            </button>
+            <button onClick={() => setSelectedPly(positions.length - 1)} className="px-3 py-1 border rounded">⏭</button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-4 space-y-4">
+          <div className="flex justify-between items-center">
+            <h1 className="text-xl font-bold">{rules.info.name} analysis</h1>
+            <Link to="/" className="text-sm text-primary-600 hover:underline">Back to lobby</Link>
+          </div>
+
+          {error && <div className="bg-red-100 text-red-800 rounded p-3 text-sm">{error}</div>}
+
+          {!analysis && !error && (
+            <div>
+              <p className="text-sm text-gray-600 mb-2">Analyzing moves...</p>
+              <div className="h-2 bg-gray-200 rounded">
+                <div className="h-2 bg-primary-600 rounded" style={{ width: `${Math.round(progress * 100)}%` }} />
+              </div>
+            </div>
+          )}
+
+          {analysis && (
+            <>
+              <EvaluationGraph
+                evaluations={analysis.evaluations}
+                selectedPly={selectedPly}
+                onSelect={setSelectedPly}
+                markers={analysis.moves
+                  .filter(m => CLASSIFICATION_STYLES[m.classification].marker)
+                  .map(m => ({ ply: m.ply + 1, className: CLASSIFICATION_STYLES[m.classification].marker! }))}
+              />
+              <p className="text-xs text-gray-500 capitalize">Above the line favours {analysis.perspective}</p>
+
+              <AnalysisSummary analysis={analysis} />
+
+              {selectedMove && selectedMove.bestMove !== undefined && (
+                <p className="text-sm">
+                  <span className={CLASSIFICATION_STYLES[selectedMove.classification].className}>
+                    {formatMove(selectedMove.move)} is {CLASSIFICATION_STYLES[selectedMove.classification].description}.
+                  </span>{' '}
+                  Best was <span className="font-semibold">{formatMove(selectedMove.bestMove)}</span>
+                </p>
+              )}
+            </>
+          )}
+
+          <ol className="text-sm font-mono grid grid-cols-2 gap-x-4 gap-y-1 max-h-96 overflow-y-auto">
+            {history.map((move, index) => {
+              const analyzed = analysis?.moves[index];
+              const style = analyzed && CLASSIFICATION_STYLES[analyzed.classification];
+
+              return (
+                <li key={index}>
+                  <button
+                    onClick={() => setSelectedPly(index + 1)}
+                    className={`w-full text-left px-1 rounded ${selectedPly === index + 1 ? 'bg-primary-100' : 'hover:bg-gray-100'}`}
+                  >
+                    {index % 2 === 0 && `${index / 2 + 1}. `}
+                    {formatMove(move)}
+                    {style && FLAGGED.includes(analyzed!.classification) && (
+                      <span className={`ml-1 font-bold ${style.className}`}>{style.label}</span>
+                    )}
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Flagged moves per side
+const AnalysisSummary: React.FC<{ analysis: GameAnalysis<GameMoveMap[GameType]> }> = ({ analysis }) => {
+  const sides = Array.from(new Set(analysis.moves.map(m => m.side)));
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-gray-500">
+          <th className="text-left font-normal" />
+          {FLAGGED.map(classification => (
+            <th key={classification} className="font-normal capitalize">{classification}s</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {sides.map(side => (
+          <tr key={side}>
+            <td className="capitalize font-semibold">{side}</td>
+            {FLAGGED.map(classification => (
+              <td key={classification} className={`text-center ${CLASSIFICATION_STYLES[classification].className}`}>
+                {analysis.moves.filter(m => m.side === side && m.classification === classification).length}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default Analysis;
@@ -1,79 +1,173 @@
-import React, { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { useWebSocket } from '../hooks/useWebSocket';
-import { GameType, Game, GameStatus } from '../types';
-import UnoGame from '../components/Games/UnoGame';
-import ChessGame from '../components/Games/ChessGame';
-import CheckersGame from '../components/Games/CheckersGame';
+import React from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { GameType, GameStatus } from '../types';
+import { gameBoards, GameBoardProps } from '../components/Games';
+import { getGameRules, isSupportedGame } from '../services/games';
+import { gameLogicService } from '../services/gameLogicService';
+import { ConnectionState } from '../services/websocketService';
+import { useGame } from '../hooks/useGame';
+import { useAuth } from '../context/AuthContext';
+import HouseRulesList from '../components/Games/HouseRulesList';
+import GameClocks from '../components/Games/GameClocks';
+import GameChat from '../components/Games/GameChat';
+
+const CONNECTION_MESSAGES: Record<Exclude<ConnectionState, 'online'>, string> = {
+  connecting: 'Connecting to the game server...',
+  reconnecting: 'Connection lost. Reconnecting; your moves will be sent once it is back...',
+  offline: 'Disconnected from the game server.'
+};
 
 const GameRoom: React.FC = () => {
-  const { gameType } = useParams<{ gameType: GameType }>();
-  const navigate = useNavigate();
-  const [game, setGame] = useState<Game | null>(null);
-  const [loading, setLoading] = useState(true);
-  
-  const { socket, emit, on, off } = useWebSocket({
-    url: process.env.REACT_APP_WS_URL || 'ws://localhost:3002',
-    room: `game-${gameType}`
-  });
-
-  useEffect(() => {
-    // Join game queue
-    emit('find-game', { gameType });
-
-    // Listen for game events
-    on('game-found', (gameData: Game) => {
-      setGame(gameData);
-      setLoading(false);
-    });
-
-    on('game-update', (gameData: Game) => {
-      setGame(gameData);
-    });
-
-    on('game-ended', (result: any) => {
-      alert(`Game ended! Winner: ${result.winner}`);
-      navigate('/');
-    });
-
-    return () => {
-      off('game-found');
-      off('game-update');
-      off('game-ended');
-    };
-  }, [gameType, emit, on, off, navigate]);
+  const { gameType, gameId } = useParams<{ gameType: string; gameId?: string }>();
+
+  if (!gameType || !isSupportedGame(gameType)) {
+    return <div className="text-center py-12">Game type not supported</div>;
+  }
+
+  // A rematch navigates to the new game; remount so it starts fresh
+  return <GameTable key={gameId ?? 'matchmaking'} gameType={gameType} gameId={gameId} />;
+};
+
+const GameTable: React.FC<{ gameType: GameType; gameId?: string }> = ({ gameType, gameId }) => {
+  const { user } = useAuth();
+  const {
+    game,
+    gameState,
+    loading,
+    error,
+    connectionState,
+    isMyTurn,
+    unoAnnouncement,
+    gameResult,
+    messages,
+    canAnalyze,
+    actions
+  } = useGame({ gameType, gameId });
+  const { info } = getGameRules(gameType);
 
   if (loading) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center">
         <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-primary-600 mb-4"></div>
-        <p className="text-lg">Finding opponent...</p>
+        <p className="text-lg">{gameId ? 'Loading game...' : 'Finding opponent...'}</p>
       </div>
     );
   }
 
-  const renderGame = () => {
-    if (!game) return null;
-
-    switch (gameType) {
-      case GameType.UNO:
-        return <UnoGame game={game} onMove={emit} />;
-      case GameType.CHESS:
-        return <ChessGame game={game} onMove={emit} />;
-      case GameType.CHECKERS:
-        return <CheckersGame game={game} onMove={emit} />;
-      default:
-        return <div>Game type not supported</div>;
-    }
+  const playerName = (playerId?: string) =>
+    game?.players.find(player => player.userId === playerId)?.username ?? 'A player';
+
+  const handleMove: GameBoardProps['onMove'] = (_, data) => {
+    const move = gameLogicService.parseMove(gameType, data.move);
+    if (move) actions.makeMove(move);
   };
 
+  const status = gameResult
+    ? 'Game over'
+    : game?.status === GameStatus.WAITING
+      ? 'Waiting for players'
+      : isMyTurn ? 'Your move' : `Waiting for ${playerName(gameState?.currentPlayer)}`;
+
+  const inProgress = game?.status === GameStatus.IN_PROGRESS && !gameResult;
+  const GameBoard = gameBoards[gameType];
+
   return (
     <div className="min-h-screen bg-gray-100">
-      <div className="max-w-7xl mx-auto py-8 px-4">
-        {renderGame()}
+      <div className="max-w-7xl mx-auto py-8 px-4 space-y-4">
+        {connectionState !== 'online' && (
+          <div className="bg-yellow-100 text-yellow-800 rounded p-3 text-sm">
+            {CONNECTION_MESSAGES[connectionState]}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-center gap-4">
+          <h1 className="text-xl font-bold">{info.icon} {info.name}</h1>
+          <span className="text-sm text-gray-600">{status}</span>
+          <div className="ml-auto flex gap-2">
+            {inProgress && gameType === GameType.UNO && (
+              <>
+                <button
+                  onClick={actions.callUno}
+                  className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                >
+                  UNO!
+                </button>
+                <button
+                  onClick={actions.challengeDrawFour}
+                  className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  Challenge +4
+                </button>
+              </>
+            )}
+            {inProgress && (
+              <button
+                onClick={actions.surrender}
+                className="px-4 py-2 border border-red-600 text-red-600 rounded hover:bg-red-50"
+              >
+                Surrender
+              </button>
+            )}
+            <Link to="/" className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50">
+              Leave
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 text-red-800 rounded p-3 text-sm">{error}</div>
+        )}
+
+        {unoAnnouncement && (
+          <div className="bg-white rounded-lg shadow p-3 text-sm">
+            {unoAnnouncement.type === 'call'
+              ? `${playerName(unoAnnouncement.playerId)} called UNO!`
+              : `${playerName(unoAnnouncement.playerId)} caught ${playerName(unoAnnouncement.targetPlayerId)}` +
+                (unoAnnouncement.penalty ? `, who draws ${unoAnnouncement.penalty}` : '')}
+          </div>
+        )}
+
+        {gameType === GameType.UNO && game?.houseRules && (
+          <HouseRulesList rules={game.houseRules} />
+        )}
+        {game && <GameClocks game={game} />}
+
+        {gameResult && (
+          <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-center gap-4">
+            <p className="font-semibold flex-1">{gameResult.message}</p>
+            {canAnalyze && (
+              <button
+                onClick={actions.analyzeGame}
+                className="px-4 py-2 border border-primary-600 text-primary-600 rounded hover:bg-primary-50"
+              >
+                Analyze game
+              </button>
+            )}
+            <button
+              onClick={actions.requestRematch}
+              className="px-4 py-2 bg-primary-600 text-white rounded hover:bg-primary-700"
+            >
+              Rematch
+            </button>
+          </div>
+        )}
+
+        {game && (
+          <div className="grid gap-4 lg:grid-cols-4">
+            <div className="lg:col-span-3">
+              <GameBoard game={game} gameState={gameState} onMove={handleMove} />
+            </div>
+            <GameChat
+              messages={messages}
+              onSend={actions.sendChatMessage}
+              currentUserId={user?.id}
+              disabled={connectionState !== 'online'}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-export default GameRoom;
\ No newline at end of file
+export default GameRoom;
@@ -2,42 +2,13 @@ import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { GameType } from '../types';
 import { useAuth } from '../context/AuthContext';
+import { gameRegistry, GameInfo } from '../services/games';
+import { aiService } from '../services/aiService';
 
-interface GameCard {
-  type: GameType;
-  name: string;
-  description: string;
-  color: string;
-  icon: string;
-  players: string;
-}
+const games = Object.values(gameRegistry);
 
-const games: GameCard[] = [
-  {
-    type: GameType.UNO,
-    name: 'UNO',
-    description: 'Classic card game of matching colors and numbers',
-    color: 'bg-game-uno',
-    icon: '🎴',
-    players: '2-4 players'
-  },
-  {
-    type: GameType.CHESS,
-    name: 'Chess',
-    description: 'Strategic board game of kings and queens',
-    color: 'bg-game-chess',
-    icon: '♟️',
-    players: '2 players'
-  },
-  {
-    type: GameType.CHECKERS,
-    name: 'Checkers',
-    description: 'Jump and capture your way to victory',
-    color: 'bg-game-card',
-    icon: '⚫',
-    players: '2 players'
-  }
-];
+const formatPlayers = ({ minPlayers, maxPlayers }: GameInfo) =>
+  minPlayers === maxPlayers ? `${minPlayers} players` : `${minPlayers}-${maxPlayers} players`;
 
 const Home: React.FC = () => {
   const navigate = useNavigate();
@@ -81,17 +52,30 @@ const Home: React.FC = () => {
               className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-xl transition-shadow cursor-pointer"
               onClick={() => handlePlayGame(game.type)}
             >
-              <div className={`${game.color} h-32 flex items-center justify-center`}>
-                <span className="text-6xl">{game.icon}</span>
+              <div className={`${game.info.color} h-32 flex items-center justify-center`}>
+                <span className="text-6xl">{game.info.icon}</span>
               </div>
               <div className="p-6">
-                <h3 className="text-2xl font-bold mb-2">{game.name}</h3>
-                <p className="text-gray-600 mb-4">{game.description}</p>
+                <h3 className="text-2xl font-bold mb-2">{game.info.name}</h3>
+                <p className="text-gray-600 mb-4">{game.info.description}</p>
                 <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-500">{game.players}</span>
-                  <button className="px-4 py-2 bg-primary-600 text-white rounded hover:bg-primary-700">
-                    Play Now
-                  </button>
+                  <span className="text-sm text-gray-500">{formatPlayers(game.info)}</span>
+                  <div className="flex gap-2">
+                    {aiService.supportsAI(game.type) && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          navigate(`/practice/${game.type}`);
+                        }}
+                        className="px-4 py-2 border border-primary-600 text-primary-600 rounded hover:bg-primary-50"
+                      >
+                        Practice
+                      </button>
+                    )}
+                    <button className="px-4 py-2 bg-primary-600 text-white rounded hover:bg-primary-700">
+                      Play Now
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
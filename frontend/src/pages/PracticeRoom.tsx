@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { GameType } from '../types';
+import { gameBoards } from '../components/Games';
+import { getGameRules, isSupportedGame } from '../services/games';
+import { aiService, AIDifficulty, AI_DIFFICULTIES } from '../services/aiService';
+import { analysisService } from '../services/analysisService';
+import { gameLogicService } from '../services/gameLogicService';
+import { gameService } from '../services/gameService';
+import { SocketEvents } from '../services/websocketService';
+import { usePracticeGame, PRACTICE_PLAYER_ID } from '../hooks/usePracticeGame';
+import type { AnalysisLocationState } from './Analysis';
+
+const PracticeRoom: React.FC = () => {
+  const { gameType } = useParams<{ gameType: string }>();
+
+  if (!gameType || !isSupportedGame(gameType) || !aiService.supportsAI(gameType)) {
+    return <div className="text-center py-12">Practice isn't available for this game</div>;
+  }
+
+  // Remount on a new game type so the practice state starts fresh
+  return <PracticeTable key={gameType} gameType={gameType} />;
+};
+
+const PracticeTable: React.FC<{ gameType: GameType }> = ({ gameType }) => {
+  const [difficulty, setDifficulty] = useState<AIDifficulty>('Medium');
+  const { info } = getGameRules(gameType);
+  const opponents = gameType === GameType.UNO ? info.maxPlayers - 1 : 1;
+
+  const { gameState, result, thinking, error, isMyTurn, makeMove, restart } = usePracticeGame({
+    gameType,
+    difficulty,
+    opponents
+  });
+
+  const usernames = Object.fromEntries(gameState.players.map(userId => [
+    userId,
+    userId === PRACTICE_PLAYER_ID ? 'You' : `Bot ${userId.replace('ai-', '')}`
+  ]));
+  const game = gameService.createLocalGame('practice', gameType, gameState, result, usernames);
+
+  const handleMove = (event: string, data?: any) => {
+    if (event === SocketEvents.PLAYER_MOVE && data?.move) makeMove(data.move);
+  };
+
+  const status = result.isOver
+    ? 'Game over'
+    : thinking ? 'Computer is thinking...' : isMyTurn ? 'Your move' : 'Waiting for the computer';
+
+  const GameBoard = gameBoards[gameType];
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="max-w-7xl mx-auto py-8 px-4 space-y-4">
+        <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-center gap-4">
+          <h1 className="text-xl font-bold">{info.icon} {info.name} practice</h1>
+          <label className="flex items-center gap-2 text-sm">
+            Difficulty
+            <select
+              value={difficulty}
+              onChange={e => setDifficulty(e.target.value as AIDifficulty)}
+              className="border border-gray-300 rounded px-2 py-1"
+            >
+              {AI_DIFFICULTIES.map(level => (
+                <option key={level} value={level}>{level}</option>
+              ))}
+            </select>
+          </label>
+          <span className="text-sm text-gray-600">{status}</span>
+          <div className="ml-auto flex gap-2">
+            {result.isOver && analysisService.supportsAnalysis(gameType) && (
+              <Link
+                to={`/analysis/${gameType}`}
+                state={{ gameState: gameLogicService.serialize(gameType, gameState) } as AnalysisLocationState}
+                className="px-4 py-2 border border-primary-600 text-primary-600 rounded hover:bg-primary-50"
+              >
+                Analyze game
+              </Link>
+            )}
+            <button
+              onClick={restart}
+              className="px-4 py-2 bg-primary-600 text-white rounded hover:bg-primary-700"
+            >
+              New game
+            </button>
+            <Link to="/" className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50">
+              Leave
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 text-red-800 rounded p-3 text-sm">{error}</div>
+        )}
+
+        <GameBoard game={game} gameState={gameState} onMove={handleMove} />
+      </div>
+    </div>
+  );
+};
+
+export default PracticeRoom;
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, Link } from 'react-router-dom';
 import { Tab } from '@headlessui/react';
 import { motion } from 'framer-motion';
 
@@ -122,13 +122,18 @@ const Profile: React.FC = () => {
                       <p className="text-sm text-gray-500">{game.date}</p>
                     </div>
                   </div>
-                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${
-                    game.result === 'Win' 
-                      ? 'bg-green-100 text-green-800' 
-                      : 'bg-red-100 text-red-800'
-                  }`}>
-                    {game.result}
-                  </span>
+                  <div className="flex items-center space-x-3">
+                    <Link to={`/replay/${game.id}`} className="text-sm text-primary-600 hover:underline">
+                      Watch replay
+                    </Link>
+                    <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+                      game.result === 'Win' 
+                        ? 'bg-green-100 text-green-800' 
+                        : 'bg-red-100 text-red-800'
+                    }`}>
+                      {game.result}
+                    </span>
+                  </div>
                 </div>
               ))}
             </div>
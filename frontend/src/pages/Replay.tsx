@@ -0,0 +1,133 @@
+import React, { useEffect, useMemo } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { GameType } from '../types';
+import { gameBoards } from '../components/Games';
+import UnoHands from '../components/Replay/UnoHands';
+import { getGameRules, GameMoveMap, GameStateMap, UnoGameState } from '../services/games';
+import { gameLogicService } from '../services/gameLogicService';
+import { gameService } from '../services/gameService';
+import { useReplay, REPLAY_SPEEDS } from '../hooks/useReplay';
+
+// Name each move the way the game records it; moves that don't add to the
+// history (UNO, a step of a multi-jump) are named from the log itself
+const getMoveLabels = (
+  gameType: GameType,
+  moves: GameMoveMap[GameType][],
+  states: GameStateMap[GameType][]
+): string[] => {
+  const rules = getGameRules(gameType);
+  const format = (move: GameMoveMap[GameType]) => (rules.formatMove ? rules.formatMove(move) : JSON.stringify(move));
+
+  return moves.map((move, index) => {
+    if (!rules.getMoveHistory) return format(move);
+
+    const before = rules.getMoveHistory(states[index]);
+    const after = rules.getMoveHistory(states[index + 1]);
+    return after.length > before.length ? format(after[after.length - 1]) : format(move);
+  });
+};
+
+const Replay: React.FC = () => {
+  const { gameId } = useParams<{ gameId: string }>();
+  const { replay, moves, states, state, ply, lastPly, playing, speed, flipped, loading, error, controls } = useReplay(gameId);
+
+  const labels = useMemo(
+    () => (replay ? getMoveLabels(replay.game.type, moves, states) : []),
+    [replay, moves, states]
+  );
+
+  // Step through the game with the arrow keys
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') controls.stepBack();
+      if (e.key === 'ArrowRight') controls.stepForward();
+    };
+
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [controls]);
+
+  if (loading) {
+    return <div className="text-center py-12">Loading replay...</div>;
+  }
+  if (error || !replay || !state) {
+    return <div className="text-center py-12">{error || 'This game has no replay'}</div>;
+  }
+
+  const gameType = replay.game.type;
+  const { info } = getGameRules(gameType);
+  const usernames = Object.fromEntries(replay.game.players.map(player => [player.userId, player.username]));
+  const game = gameService.createLocalGame(replay.game.id, gameType, state, gameLogicService.checkGameOver(gameType, state), usernames);
+  const GameBoard = gameBoards[gameType];
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="max-w-7xl mx-auto py-8 px-4 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-4">
+          {/* UNO hands are all shown face up */}
+          {gameType === GameType.UNO
+            ? <UnoHands state={state as UnoGameState} usernames={usernames} />
+            : <GameBoard game={game} gameState={state} onMove={() => undefined} flipped={flipped} />}
+
+          <div className="bg-white rounded-lg shadow p-4 space-y-3">
+            <input
+              type="range"
+              min={0}
+              max={lastPly}
+              value={ply}
+              onChange={e => controls.seek(Number(e.target.value))}
+              aria-label="Seek"
+              className="w-full"
+            />
+            <div className="flex flex-wrap items-center justify-center gap-2">
+              <button onClick={() => controls.seek(0)} className="px-3 py-1 border rounded">⏮</button>
+              <button onClick={controls.stepBack} className="px-3 py-1 border rounded">◀</button>
+              <button onClick={controls.togglePlay} className="px-3 py-1 border rounded w-12">
+                {playing ? '⏸' : '▶️'}
+              </button>
+              <button onClick={controls.stepForward} className="px-3 py-1 border rounded">▶</button>
+              <button onClick={() => controls.seek(lastPly)} className="px-3 py-1 border rounded">⏭</button>
+              <select
+                value={speed}
+                onChange={e => controls.setSpeed(Number(e.target.value))}
+                aria-label="Autoplay speed"
+                className="border border-gray-300 rounded px-2 py-1"
+              >
+                {REPLAY_SPEEDS.map(option => (
+                  <option key={option} value={option}>{option}x</option>
+                ))}
+              </select>
+              {gameType !== GameType.UNO && (
+                <button onClick={controls.flip} className="px-3 py-1 border rounded">Flip board</button>
+              )}
+              <span className="text-sm text-gray-600">Move {ply} of {lastPly}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-4 space-y-4">
+          <div className="flex justify-between items-center">
+            <h1 className="text-xl font-bold">{info.icon} {info.name} replay</h1>
+            <Link to="/profile" className="text-sm text-primary-600 hover:underline">Back to profile</Link>
+          </div>
+          <p className="text-sm text-gray-600">{replay.game.players.map(player => player.username).join(' vs ')}</p>
+
+          <ol className="text-sm font-mono space-y-1 max-h-[32rem] overflow-y-auto">
+            {labels.map((label, index) => (
+              <li key={index}>
+                <button
+                  onClick={() => controls.seek(index + 1)}
+                  className={`w-full text-left px-1 rounded ${ply === index + 1 ? 'bg-primary-100' : 'hover:bg-gray-100'}`}
+                >
+                  {index + 1}. {label}
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Replay;
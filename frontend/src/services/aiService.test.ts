@@ -0,0 +1,84 @@
+import { aiService } from './aiService';
+import { gameLogicService } from './gameLogicService';
+import { GameType } from '../types';
+
+describe('aiService', () => {
+  const connectFour = (columns: number[]) =>
+    columns.reduce(
+      (state, column) => gameLogicService.applyMove(GameType.CONNECT_FOUR, state, { column }),
+      gameLogicService.createInitialState(GameType.CONNECT_FOUR, ['p1', 'p2'])
+    );
+
+  it('completes a winning connect four line', () => {
+    // Red has three in the bottom row and is to move
+    const state = connectFour([0, 0, 1, 1, 2, 6]);
+    expect(aiService.chooseMove(GameType.CONNECT_FOUR, state, 'Easy')).toEqual({ column: 3 });
+  });
+
+  it('blocks the opponent when it cannot win', () => {
+    // Yellow to move must stop red's three in the bottom row
+    const state = connectFour([0, 6, 1, 6, 2]);
+    expect(aiService.chooseMove(GameType.CONNECT_FOUR, state, 'Medium')).toEqual({ column: 3 });
+  });
+
+  it('completes its own caro five before blocking the opponent', () => {
+    let state = gameLogicService.createInitialState(GameType.CARO, ['p1', 'p2']);
+    [[7, 3], [0, 0], [7, 4], [0, 1], [7, 5], [0, 2], [7, 6], [0, 3]].forEach(([row, col]) => {
+      state = gameLogicService.applyMove(GameType.CARO, state, { row, col });
+    });
+
+    const move = aiService.chooseMove(GameType.CARO, state, 'Medium');
+    expect([{ row: 7, col: 2 }, { row: 7, col: 7 }]).toContainEqual(move);
+  });
+
+  it('finds mate in one', () => {
+    // Back rank mate: Ra8#
+    const state = gameLogicService.fromFEN('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1', ['p1', 'p2']);
+    expect(aiService.chooseMove(GameType.CHESS, state, 'Hard')).toMatchObject({ from: 'a1', to: 'a8' });
+  });
+
+  it('takes a hanging queen', () => {
+    const state = gameLogicService.fromFEN('4k3/8/8/3q4/8/8/8/3RK3 w - - 0 1', ['p1', 'p2']);
+    expect(aiService.chooseMove(GameType.CHESS, state, 'Medium')).toMatchObject({ from: 'd1', to: 'd5' });
+  });
+
+  it('searches a checkers multi-jump as one turn', () => {
+    let state = gameLogicService.createInitialState(GameType.CHECKERS, ['p1', 'p2']);
+    const board = state.board.map(cells => cells.map(() => null as (typeof cells)[number]));
+    // Black's man on the back row has a double jump over both red men
+    board[7][2] = { color: 'black', isKing: false };
+    board[6][3] = { color: 'red', isKing: false };
+    board[4][3] = { color: 'red', isKing: false };
+    board[0][7] = { color: 'red', isKing: false };
+    state = { ...state, board, positionKeys: [] };
+
+    const move = aiService.chooseMove(GameType.CHECKERS, state, 'Medium');
+    expect(move).toMatchObject({ from: [7, 2], to: [5, 4] });
+
+    const afterFirst = gameLogicService.applyMove(GameType.CHECKERS, state, move!);
+    expect(aiService.chooseMove(GameType.CHECKERS, afterFirst, 'Medium')).toMatchObject({ to: [3, 2] });
+  });
+
+  it('calls UNO before playing its second-to-last card', () => {
+    const state = gameLogicService.createInitialState(GameType.UNO, ['p1', 'p2']);
+    const topCard = state.discardPile[state.discardPile.length - 1];
+    const hand = [
+      { color: 'wild' as const, value: 'wild', id: 'test-wild' },
+      { color: 'wild' as const, value: 'wild', id: 'test-wild-2' }
+    ];
+    const playerHands = new Map(state.playerHands).set('p1', hand);
+    const twoCards = { ...state, playerHands, currentPlayer: 'p1', currentColor: topCard.color === 'wild' ? 'red' as const : undefined };
+
+    expect(aiService.chooseMove(GameType.UNO, twoCards, 'Hard')).toEqual({ type: 'call-uno', playerId: 'p1', timestamp: expect.any(Number) });
+
+    const called = gameLogicService.applyMove(GameType.UNO, twoCards, { type: 'call-uno', playerId: 'p1', timestamp: 1000 });
+    expect(aiService.chooseMove(GameType.UNO, called, 'Hard')).toMatchObject({ type: 'play', playerId: 'p1' });
+  });
+
+  it('reports which games it can play', () => {
+    expect(aiService.supportsAI(GameType.CONNECT_FOUR)).toBe(true);
+    expect(aiService.supportsAI(GameType.CARO)).toBe(true);
+    expect(aiService.supportsAI(GameType.UNO)).toBe(true);
+    expect(aiService.supportsAI(GameType.CHESS)).toBe(true);
+  });
+});
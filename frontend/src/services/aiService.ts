@@ -0,0 +1,285 @@
+import { GameType } from '../types';
+import {
+  getGameRules,
+  unoRules,
+  BaseGameState,
+  GameMoveMap,
+  GameRules,
+  GameStateMap,
+  UnoCard,
+  UnoColor,
+  UnoGameState,
+  UnoMove
+} from './games';
+
+export type AIDifficulty = 'Easy' | 'Medium' | 'Hard' | 'Expert';
+
+export interface AIDifficultySettings {
+  // Plies searched by the board game bots
+  depth: number;
+  // Chance of playing a random move instead of the best one
+  randomMoveChance: number;
+}
+
+export const AI_DIFFICULTIES: AIDifficulty[] = ['Easy', 'Medium', 'Hard', 'Expert'];
+
+export const AI_DIFFICULTY_SETTINGS: Record<AIDifficulty, AIDifficultySettings> = {
+  Easy: { depth: 1, randomMoveChance: 0.3 },
+  Medium: { depth: 2, randomMoveChance: 0 },
+  Hard: { depth: 3, randomMoveChance: 0 },
+  Expert: { depth: 4, randomMoveChance: 0 }
+};
+
+export interface PositionAnalysis<TMove> {
+  bestMove: TMove;
+  bestScore: number;
+  playedScore?: number;
+}
+
+const UNO_ACTION_VALUES: (string | number)[] = ['skip', 'reverse', 'draw2', 'draw4'];
+
+class AIService {
+  // UNO has its own card-play bot, the board games need an evaluation to search with
+  supportsAI(gameType: GameType): boolean {
+    return gameType === GameType.UNO || getGameRules(gameType).evaluate !== undefined;
+  }
+
+  // Pick a move for a player, by default the one to move; equally good moves are chosen between at random.
+  // UNO bots may also act out of turn to call UNO or catch a missing call, and return nothing otherwise
+  chooseMove<T extends GameType>(
+    gameType: T,
+    state: GameStateMap[T],
+    difficulty: AIDifficulty = 'Medium',
+    playerId?: string
+  ): GameMoveMap[T] | undefined {
+    const settings = AI_DIFFICULTY_SETTINGS[difficulty];
+
+    if (gameType === GameType.UNO) {
+      const unoState = state as UnoGameState;
+      return this.chooseUnoMove(unoState, playerId || unoState.currentPlayer, settings) as GameMoveMap[T] | undefined;
+    }
+
+    return this.search(getGameRules(gameType), state, settings);
+  }
+
+  private search<TState extends BaseGameState, TMove>(
+    rules: GameRules<TState, TMove, unknown>,
+    state: TState,
+    settings: AIDifficultySettings
+  ): TMove | undefined {
+    if (!rules.evaluate) return undefined;
+
+    const moves = this.getSearchMoves(rules, state);
+
+    // Weaker bots sometimes play at random, but never miss a win on the board
+    if (Math.random() < settings.randomMoveChance && !moves.some(move => this.winsImmediately(rules, state, move))) {
+      return moves[Math.floor(Math.random() * moves.length)];
+    }
+
+    const depth = Math.min(settings.depth, rules.maxSearchDepth ?? Infinity);
+    const { moves: bestMoves } = this.findBestMoves(rules, state, moves, depth);
+    return bestMoves[Math.floor(Math.random() * bestMoves.length)];
+  }
+
+  // The moves sharing the best score for the side to move, searched to a fixed depth
+  private findBestMoves<TState extends BaseGameState, TMove>(
+    rules: GameRules<TState, TMove, unknown>,
+    state: TState,
+    moves: TMove[],
+    depth: number
+  ): { moves: TMove[]; score: number } {
+    let bestScore = -Infinity;
+    let bestMoves: TMove[] = [];
+
+    // The window only prunes moves at least a point worse than the best so far, keeping ties exact
+    moves.forEach(move => {
+      const score = this.scoreMove(rules, state, move, depth - 1, bestScore - 1, Infinity);
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestMoves = [move];
+      } else if (score === bestScore) {
+        bestMoves.push(move);
+      }
+    });
+
+    return { moves: bestMoves, score: bestScore };
+  }
+
+  // Fixed-depth analysis for reviewing a game: the best move in a position and how the move
+  // actually played compares, both scored for the side to move
+  analyzePosition<T extends GameType>(
+    gameType: T,
+    state: GameStateMap[T],
+    depth: number,
+    played?: GameMoveMap[T]
+  ): PositionAnalysis<GameMoveMap[T]> | undefined {
+    const rules = getGameRules(gameType);
+    if (!rules.evaluate) return undefined;
+
+    const moves = this.getSearchMoves(rules, state);
+    if (moves.length === 0) return undefined;
+
+    const best = this.findBestMoves(rules, state, moves, depth);
+    if (played === undefined) {
+      return { bestMove: best.moves[0], bestScore: best.score };
+    }
+
+    const playedScore = this.scoreMove(rules, state, played, depth - 1, -Infinity, Infinity);
+    // A move as good as the best one is the best move
+    return {
+      bestMove: playedScore >= best.score ? played : best.moves[0],
+      bestScore: Math.max(best.score, playedScore),
+      playedScore
+    };
+  }
+
+  // Alpha-beta negamax; scores are always from the point of view of the side to move
+  private negamax<TState extends BaseGameState, TMove>(
+    rules: GameRules<TState, TMove, unknown>,
+    state: TState,
+    depth: number,
+    alpha: number,
+    beta: number
+  ): number {
+    // Scale finished games by the remaining depth so quicker wins and slower losses are preferred
+    if (rules.checkGameOver(state).isOver) return rules.evaluate!(state) * (depth + 1);
+    if (depth <= 0) return rules.evaluate!(state);
+
+    let best = -Infinity;
+    for (const move of this.getSearchMoves(rules, state)) {
+      best = Math.max(best, this.scoreMove(rules, state, move, depth - 1, alpha, beta));
+      alpha = Math.max(alpha, best);
+      if (alpha >= beta) break;
+    }
+
+    return best;
+  }
+
+  // Score a move for the side making it. A turn can span several moves, like a checkers
+  // multi-jump, so the score is only negated when the other side is to move next, and
+  // continuing the same turn doesn't use up depth
+  private scoreMove<TState extends BaseGameState, TMove>(
+    rules: GameRules<TState, TMove, unknown>,
+    state: TState,
+    move: TMove,
+    depth: number,
+    alpha: number,
+    beta: number
+  ): number {
+    const next = rules.applyMove(state, move);
+
+    if (rules.getSideToMove(next) === rules.getSideToMove(state)) {
+      return this.negamax(rules, next, depth + 1, alpha, beta);
+    }
+
+    return -this.negamax(rules, next, depth, -beta, -alpha);
+  }
+
+  private winsImmediately<TState extends BaseGameState, TMove>(
+    rules: GameRules<TState, TMove, unknown>,
+    state: TState,
+    move: TMove
+  ): boolean {
+    return rules.checkGameOver(rules.applyMove(state, move)).winner === rules.getSideToMove(state);
+  }
+
+  private getSearchMoves<TState extends BaseGameState, TMove>(rules: GameRules<TState, TMove, unknown>, state: TState): TMove[] {
+    return rules.getSearchMoves ? rules.getSearchMoves(state) : rules.getLegalMoves(state);
+  }
+
+  // UNO hides the other hands, so instead of searching the bot plays by card-shedding heuristics
+  private chooseUnoMove(state: UnoGameState, playerId: string, settings: AIDifficultySettings): UnoMove | undefined {
+    const careless = Math.random() < settings.randomMoveChance;
+    const timestamp = Date.now();
+
+    // Easy bots sometimes forget to call UNO, the others never do
+    const callUno: UnoMove = { type: 'call-uno', playerId, timestamp };
+    const hasCalled = state.unoCall?.playerId === playerId && state.unoCall.called;
+    if (!careless && !hasCalled && unoRules.validateMove(state, callUno)) return callUno;
+
+    // Only Easy bots let a missing UNO call slide
+    const challenge = state.players
+      .map((targetPlayerId): UnoMove => ({ type: 'challenge-uno', playerId, targetPlayerId, timestamp }))
+      .find(move => unoRules.validateMove(state, move));
+    if (challenge && settings.randomMoveChance === 0) return challenge;
+
+    if (state.currentPlayer !== playerId) return undefined;
+
+    const moves = unoRules.getLegalMoves(state, timestamp);
+    const plays = moves.filter(move => move.type === 'play');
+
+    // Nothing to play: take a card, or keep the one just drawn
+    if (plays.length === 0) {
+      return moves.find(move => move.type === 'draw') || moves.find(move => move.type === 'pass');
+    }
+
+    if (careless) return plays[Math.floor(Math.random() * plays.length)];
+
+    const hand = state.playerHands.get(playerId) || [];
+    let bestScore = -Infinity;
+    let bestMoves: UnoMove[] = [];
+
+    plays.forEach(move => {
+      const score = this.scoreUnoPlay(state, hand, move, settings);
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestMoves = [move];
+      } else if (score === bestScore) {
+        bestMoves.push(move);
+      }
+    });
+
+    return bestMoves[Math.floor(Math.random() * bestMoves.length)];
+  }
+
+  // Keep to the colour held most, save wilds for when they're needed, and from Hard up
+  // shed high-scoring cards and hit an opponent close to going out with action cards
+  private scoreUnoPlay(state: UnoGameState, hand: UnoCard[], move: UnoMove, settings: AIDifficultySettings): number {
+    const card = hand.find(c => c.id === move.cardId)!;
+    const rest = hand.filter(c => c.id !== card.id);
+    const color = card.color === 'wild' ? move.color : card.color;
+
+    let score = 5 * rest.filter(c => c.color === color).length;
+
+    if (card.color === 'wild') {
+      score -= rest.length > 1 ? 30 : 0;
+      // A wild colour should be the one left in hand most often
+      score += color === this.getMostHeldUnoColor(rest) ? 10 : 0;
+    }
+
+    if (move.targetPlayerId) {
+      // Seven-zero: swap with whoever has the fewest cards
+      score -= 3 * (state.playerHands.get(move.targetPlayerId) || []).length;
+    }
+
+    if (settings.depth >= 3) {
+      const nextPlayerId = state.players[
+        (state.players.indexOf(state.currentPlayer) + state.direction + state.players.length) % state.players.length
+      ];
+      const nextHandSize = (state.playerHands.get(nextPlayerId) || []).length;
+
+      if (UNO_ACTION_VALUES.includes(card.value) && nextHandSize <= 2) score += 40;
+      score += typeof card.value === 'number' ? card.value : 20;
+    }
+
+    return score;
+  }
+
+  private getMostHeldUnoColor(hand: UnoCard[]): UnoColor | undefined {
+    const counts = new Map<UnoColor, number>();
+    hand.forEach(card => {
+      if (card.color !== 'wild') counts.set(card.color, (counts.get(card.color) || 0) + 1);
+    });
+
+    let best: UnoColor | undefined;
+    counts.forEach((count, color) => {
+      if (best === undefined || count > counts.get(best)!) best = color;
+    });
+
+    return best;
+  }
+}
+
+export const aiService = new AIService();
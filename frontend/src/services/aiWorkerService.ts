@@ -0,0 +1,109 @@
+import { GameType } from '../types';
+import { aiService, AIDifficulty } from './aiService';
+import { analysisService, GameAnalysis } from './analysisService';
+import { gameLogicService } from './gameLogicService';
+import { GameMoveMap, GameStateMap } from './games';
+import type { AIWorkerRequest, AIWorkerResponse } from '../workers/ai.worker';
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (analyzed: number, total: number) => void;
+}
+
+class AIWorkerService {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+
+  // Ask the bot for a move without blocking the UI; falls back to searching
+  // on the main thread where workers aren't available
+  requestMove<T extends GameType>(
+    gameType: T,
+    state: GameStateMap[T],
+    difficulty: AIDifficulty,
+    playerId?: string
+  ): Promise<GameMoveMap[T] | undefined> {
+    if (!this.getWorker()) {
+      return Promise.resolve(aiService.chooseMove(gameType, state, difficulty, playerId));
+    }
+
+    return this.send({
+      type: 'choose-move',
+      gameType,
+      state: gameLogicService.serialize(gameType, state),
+      difficulty,
+      playerId
+    }) as Promise<GameMoveMap[T] | undefined>;
+  }
+
+  // Analyze a finished game move by move, reporting progress as it goes
+  analyzeGame<T extends GameType>(
+    gameType: T,
+    state: GameStateMap[T],
+    depth?: number,
+    onProgress?: (analyzed: number, total: number) => void
+  ): Promise<GameAnalysis<GameMoveMap[T]>> {
+    if (!this.getWorker()) {
+      return Promise.resolve(analysisService.analyzeGame(gameType, state, { depth, onProgress }));
+    }
+
+    return this.send({
+      type: 'analyze-game',
+      gameType,
+      state: gameLogicService.serialize(gameType, state),
+      depth
+    }, onProgress) as Promise<GameAnalysis<GameMoveMap[T]>>;
+  }
+
+  // Drop unanswered requests, e.g. when leaving a practice game mid-search
+  cancelAll(): void {
+    this.pending.forEach(({ reject }) => reject(new Error('AI request cancelled')));
+    this.pending.clear();
+
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+  }
+
+  private send(
+    request: DistributiveOmit<AIWorkerRequest, 'id'>,
+    onProgress?: (analyzed: number, total: number) => void
+  ): Promise<unknown> {
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onProgress });
+      this.getWorker()!.postMessage({ ...request, id });
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || typeof Worker === 'undefined') return this.worker;
+
+    this.worker = new Worker(new URL('../workers/ai.worker.ts', import.meta.url));
+    this.worker.onmessage = ({ data }: MessageEvent<AIWorkerResponse>) => {
+      const request = this.pending.get(data.id);
+      if (!request) return;
+
+      if (!data.done) {
+        if (data.progress) request.onProgress?.(data.progress.analyzed, data.progress.total);
+        return;
+      }
+
+      this.pending.delete(data.id);
+      if (data.error) {
+        request.reject(new Error(data.error));
+      } else {
+        request.resolve(data.result);
+      }
+    };
+
+    return this.worker;
+  }
+}
+
+export const aiWorkerService = new AIWorkerService();
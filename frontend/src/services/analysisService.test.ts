@@ -0,0 +1,36 @@
+import { analysisService } from './analysisService';
+import { gameLogicService } from './gameLogicService';
+import { GameType } from '../types';
+
+describe('analysisService', () => {
+  const playChess = (moves: [string, string][]) =>
+    moves.reduce((state, [from, to]) => {
+      const move = gameLogicService.getLegalMoves(state, from).find(m => m.to === to)!;
+      return gameLogicService.applyMove(GameType.CHESS, state, move);
+    }, gameLogicService.createInitialState(GameType.CHESS, ['p1', 'p2']));
+
+  it('flags the move that allows mate and suggests a defence', () => {
+    // Scholar's mate: 3...Nf6?? walks into Qxf7#
+    const state = playChess([['e2', 'e4'], ['e7', 'e5'], ['d1', 'h5'], ['b8', 'c6'], ['f1', 'c4'], ['g8', 'f6'], ['h5', 'f7']]);
+    const analysis = analysisService.analyzeGame(GameType.CHESS, state);
+
+    expect(analysis.perspective).toBe('white');
+    expect(analysis.evaluations).toHaveLength(8);
+    expect(analysis.moves[5]).toMatchObject({ side: 'black', classification: 'blunder' });
+    expect(analysis.moves[5].bestMove).toBeDefined();
+    expect(analysis.moves[6]).toMatchObject({ classification: 'best', evaluation: 1000 });
+  });
+
+  it('reports progress after every move', () => {
+    const state = playChess([['e2', 'e4'], ['e7', 'e5']]);
+    const onProgress = jest.fn();
+    analysisService.analyzeGame(GameType.CHESS, state, { onProgress });
+
+    expect(onProgress.mock.calls).toEqual([[1, 2], [2, 2]]);
+  });
+
+  it('only analyzes chess and checkers', () => {
+    expect(analysisService.supportsAnalysis(GameType.CHECKERS)).toBe(true);
+    expect(analysisService.supportsAnalysis(GameType.UNO)).toBe(false);
+  });
+});
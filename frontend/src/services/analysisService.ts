@@ -0,0 +1,144 @@
+import { GameType } from '../types';
+import { aiService } from './aiService';
+import { getGameRules, GameMoveMap, GameRulesFor, GameStateMap } from './games';
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface AnalyzedMove<TMove> {
+  ply: number;
+  side: string;
+  move: TMove;
+  // Evaluation after the move, from the point of view of the analysis
+  evaluation: number;
+  // How much worse the move was than the best one for the side that played it
+  loss: number;
+  classification: MoveClassification;
+  // What should have been played instead, as it would appear in the move history
+  bestMove?: TMove;
+}
+
+export interface GameAnalysis<TMove> {
+  // Side the evaluations favour when positive: the one that moved first
+  perspective: string;
+  // Evaluation of the start position and after every move
+  evaluations: number[];
+  moves: AnalyzedMove<TMove>[];
+}
+
+export interface AnalysisOptions {
+  depth?: number;
+  onProgress?: (analyzed: number, total: number) => void;
+}
+
+export const DEFAULT_ANALYSIS_DEPTH = 2;
+
+// Scores are capped so a missed mate counts as one blunder instead of dwarfing the graph
+export const ANALYSIS_SCORE_CAP = 1000;
+
+// Loss at which a move is flagged, in evaluation points where a pawn or a checkers man is 100
+const CLASSIFICATION_THRESHOLDS: [MoveClassification, number][] = [
+  ['blunder', 300],
+  ['mistake', 100],
+  ['inaccuracy', 50]
+];
+
+const ANALYZABLE_GAMES: GameType[] = [GameType.CHESS, GameType.CHECKERS];
+
+class AnalysisService {
+  supportsAnalysis(gameType: GameType): boolean {
+    return ANALYZABLE_GAMES.includes(gameType);
+  }
+
+  // Replay a finished game from its move history and score every move against the best one
+  analyzeGame<T extends GameType>(
+    gameType: T,
+    finalState: GameStateMap[T],
+    options: AnalysisOptions = {}
+  ): GameAnalysis<GameMoveMap[T]> {
+    const rules = getGameRules(gameType);
+    if (!rules.getStartState || !rules.getMoveHistory || !rules.evaluate) {
+      throw new Error(`Analysis is not available for ${gameType}`);
+    }
+
+    const depth = options.depth ?? DEFAULT_ANALYSIS_DEPTH;
+    const history = rules.getMoveHistory(finalState);
+    let state = rules.getStartState(finalState);
+    const perspective = rules.getSideToMove(state);
+
+    const forPerspective = (score: number, side: string) => this.cap(side === perspective ? score : -score);
+
+    const evaluations: number[] = [];
+    const moves: AnalyzedMove<GameMoveMap[T]>[] = [];
+
+    history.forEach((move, ply) => {
+      const side = rules.getSideToMove(state);
+      const steps = rules.expandHistoryMove ? rules.expandHistoryMove(state, move) : [move];
+      const analysis = aiService.analyzePosition(gameType, state, depth, steps[0]);
+
+      evaluations.push(forPerspective(analysis ? analysis.bestScore : rules.evaluate!(state), side));
+
+      if (analysis) {
+        const loss = Math.max(0, this.cap(analysis.bestScore) - this.cap(analysis.playedScore!));
+        const classification = this.classify(loss, analysis.bestMove === steps[0]);
+
+        moves.push({
+          ply,
+          side,
+          move,
+          evaluation: 0,
+          loss,
+          classification,
+          bestMove: classification === 'best' ? undefined : this.recordTurn(gameType, rules, state, analysis.bestMove, depth)
+        });
+      }
+
+      state = steps.reduce((current, step) => rules.applyMove(current, step), state);
+      options.onProgress?.(ply + 1, history.length);
+    });
+
+    // The finished position is scored as it stands
+    evaluations.push(forPerspective(rules.evaluate(state), rules.getSideToMove(state)));
+
+    // Each move leaves the position scored next
+    moves.forEach(analyzed => {
+      analyzed.evaluation = evaluations[analyzed.ply + 1];
+    });
+
+    return { perspective, evaluations, moves };
+  }
+
+  private classify(loss: number, isBest: boolean): MoveClassification {
+    if (isBest) return 'best';
+
+    const flagged = CLASSIFICATION_THRESHOLDS.find(([, threshold]) => loss >= threshold);
+    return flagged ? flagged[0] : 'good';
+  }
+
+  // Play a move and, if the turn goes on, the best continuation, then read the turn back
+  // from the move history so it's named the way the game records it
+  private recordTurn<T extends GameType>(
+    gameType: T,
+    rules: GameRulesFor<T>,
+    state: GameStateMap[T],
+    move: GameMoveMap[T],
+    depth: number
+  ): GameMoveMap[T] {
+    const side = rules.getSideToMove(state);
+    let next = rules.applyMove(state, move);
+
+    while (rules.getSideToMove(next) === side && !rules.checkGameOver(next).isOver) {
+      const continuation = aiService.analyzePosition(gameType, next, depth);
+      if (!continuation) break;
+      next = rules.applyMove(next, continuation.bestMove);
+    }
+
+    const recorded = rules.getMoveHistory!(next);
+    return recorded[recorded.length - 1];
+  }
+
+  private cap(score: number): number {
+    return Math.max(-ANALYSIS_SCORE_CAP, Math.min(ANALYSIS_SCORE_CAP, score));
+  }
+}
+
+export const analysisService = new AnalysisService();
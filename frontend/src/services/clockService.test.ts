@@ -0,0 +1,56 @@
+import { clockService, TIME_CONTROL_PRESETS } from './clockService';
+import { ClockState, TimeControl } from '../types';
+
+describe('clockService', () => {
+  const start = (remaining: number): ClockState => ({
+    remaining: { a: remaining, b: remaining },
+    running: 'a',
+    moveTime: 0,
+    serverTime: 0
+  });
+
+  it('adds the Fischer increment after a move', () => {
+    const clock = clockService.press(start(60000), TIME_CONTROL_PRESETS.bullet, 'b', 5000);
+
+    expect(clock.remaining).toEqual({ a: 56000, b: 60000 });
+    expect(clock.running).toBe('b');
+  });
+
+  it('gives back Bronstein delay only up to the time used', () => {
+    const bronstein: TimeControl = { mode: 'bronstein', initial: 60000, delay: 3000 };
+
+    expect(clockService.press(start(60000), bronstein, 'b', 2000).remaining.a).toBe(60000);
+    expect(clockService.press(start(60000), bronstein, 'b', 5000).remaining.a).toBe(58000);
+  });
+
+  it('holds a simple delay clock until the delay has passed, even across readings', () => {
+    const delay: TimeControl = { mode: 'simple-delay', initial: 60000, delay: 3000 };
+
+    expect(clockService.getRemaining(start(60000), delay, 'a', 2000)).toBe(60000);
+    expect(clockService.getRemaining(start(60000), delay, 'a', 5000)).toBe(58000);
+
+    // A reading taken a second into the move still has two seconds of delay left
+    const midMove = { ...start(60000), moveTime: 1000, serverTime: 1000 };
+    expect(clockService.getRemaining(midMove, delay, 'a', 3000)).toBe(60000);
+    expect(clockService.getRemaining(midMove, delay, 'a', 4000)).toBe(59000);
+    expect(clockService.getRemaining(midMove, delay, 'b', 4000)).toBe(60000);
+  });
+
+  it('resets per-move clocks and keeps a fallen flag down', () => {
+    const perMove: TimeControl = { mode: 'per-move', initial: 30000 };
+    expect(clockService.press(start(30000), perMove, 'b', 10000).remaining.a).toBe(30000);
+
+    const flagged = clockService.press(start(1000), TIME_CONTROL_PRESETS.blitz, 'b', 2000);
+    expect(flagged.remaining.a).toBe(0);
+    expect(flagged.running).toBeUndefined();
+  });
+
+  it('formats clocks and time controls', () => {
+    expect(clockService.formatClock(9450)).toBe('9.4');
+    expect(clockService.formatClock(185000)).toBe('3:05');
+    expect(clockService.formatClock(3725000)).toBe('1:02:05');
+    expect(clockService.formatClock(2 * 86400000 + 5 * 3600000)).toBe('2d 5h');
+    expect(clockService.formatTimeControl(TIME_CONTROL_PRESETS.blitz)).toBe('3+2');
+    expect(clockService.formatTimeControl(clockService.resolveTimeControl('correspondence'))).toBe('3 days per move');
+  });
+});
@@ -0,0 +1,99 @@
+import { ClockState, TimeControl, TimeControlPreset } from '../types';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const TIME_CONTROL_PRESETS: Record<TimeControlPreset, TimeControl> = {
+  bullet: { mode: 'fischer', initial: 1 * MINUTE, increment: 1 * SECOND },
+  blitz: { mode: 'fischer', initial: 3 * MINUTE, increment: 2 * SECOND },
+  rapid: { mode: 'fischer', initial: 10 * MINUTE, increment: 5 * SECOND },
+  classical: { mode: 'fischer', initial: 30 * MINUTE, increment: 20 * SECOND },
+  correspondence: { mode: 'correspondence', initial: 3 * DAY }
+};
+
+// Clock arithmetic shared by the display and the server's ruling; the server's
+// reading is authoritative and the client only projects it forward in time
+class ClockService {
+  resolveTimeControl(control: TimeControlPreset | TimeControl): TimeControl {
+    return typeof control === 'string' ? TIME_CONTROL_PRESETS[control] : control;
+  }
+
+  // Time a player has left at the given server time
+  getRemaining(clock: ClockState, control: TimeControl, playerId: string, serverNow: number): number {
+    const remaining = clock.remaining[playerId] ?? 0;
+    if (clock.running !== playerId) return remaining;
+
+    // Under simple delay the clock only runs once the delay has passed on this move
+    const delay = control.mode === 'simple-delay' ? control.delay ?? 0 : 0;
+    const usedBefore = clock.moveTime ?? 0;
+    const usedNow = usedBefore + Math.max(0, serverNow - clock.serverTime);
+    const counted = Math.max(0, usedNow - delay) - Math.max(0, usedBefore - delay);
+
+    return Math.max(0, remaining - counted);
+  }
+
+  // The running player completes a move and the next player's clock starts
+  press(clock: ClockState, control: TimeControl, next: string | undefined, serverNow: number): ClockState {
+    const mover = clock.running;
+    const started = { moveTime: 0, serverTime: serverNow };
+    if (!mover) return { ...clock, ...started, running: next };
+
+    const left = this.getRemaining(clock, control, mover, serverNow);
+
+    // A flag that has fallen stays down
+    if (left <= 0) return { ...clock, ...started, remaining: { ...clock.remaining, [mover]: 0 }, running: undefined };
+
+    const used = (clock.moveTime ?? 0) + Math.max(0, serverNow - clock.serverTime);
+    let after = left;
+
+    switch (control.mode) {
+      case 'fischer':
+        after = left + (control.increment ?? 0);
+        break;
+      case 'bronstein':
+        after = left + Math.min(used, control.delay ?? 0);
+        break;
+      case 'per-move':
+      case 'correspondence':
+        after = control.initial;
+        break;
+    }
+
+    return { ...started, remaining: { ...clock.remaining, [mover]: after }, running: next };
+  }
+
+  // Days and hours for correspondence, tenths under ten seconds, otherwise h:mm:ss or m:ss
+  formatClock(ms: number): string {
+    if (ms >= DAY) return `${Math.floor(ms / DAY)}d ${Math.floor((ms % DAY) / HOUR)}h`;
+    if (ms < 10 * SECOND) return (Math.floor(ms / 100) / 10).toFixed(1);
+
+    const totalSeconds = Math.floor(ms / SECOND);
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    const minutes = Math.floor(totalSeconds / 60) % 60;
+    const hours = Math.floor(totalSeconds / 3600);
+
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+  }
+
+  // Short name for lobbies, e.g. '3+2', '5 d5' or '3 days per move'
+  formatTimeControl(control: TimeControl): string {
+    const minutes = control.initial / MINUTE;
+
+    switch (control.mode) {
+      case 'fischer':
+        return `${minutes}+${(control.increment ?? 0) / SECOND}`;
+      case 'bronstein':
+        return `${minutes} B${(control.delay ?? 0) / SECOND}`;
+      case 'simple-delay':
+        return `${minutes} d${(control.delay ?? 0) / SECOND}`;
+      case 'per-move':
+        return `${control.initial / SECOND}s per move`;
+      case 'correspondence':
+        return `${control.initial / DAY} days per move`;
+    }
+  }
+}
+
+export const clockService = new ClockService();
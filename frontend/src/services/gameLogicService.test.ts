@@ -0,0 +1,933 @@
+import {
+  gameLogicService,
+  getGameRules,
+  checkersRules,
+  createUnoDeck,
+  unoRules,
+  DEFAULT_UNO_HOUSE_RULES,
+  CHESS_START_FEN,
+  CheckersGameState,
+  CheckersPiece,
+  CheckersVariant,
+  ChessMove,
+  GameMoveMap,
+  GameOptionsMap,
+  GameStateMap,
+  UnoCard,
+  UnoGameState,
+  UnoMove,
+  UNO_DECK_SIZE,
+  XiangqiBoard,
+  XiangqiGameState
+} from './gameLogicService';
+import { GameType, UnoHouseRules } from '../types';
+import { sha256 } from './games/random';
+
+// Freeze a state graph, including Maps, so any mutation throws in strict mode
+const deepFreeze = <T>(value: T): T => {
+  if (value === null || typeof value !== 'object' || Object.isFrozen(value)) return value;
+
+  if (value instanceof Map) {
+    const readOnly = () => {
+      throw new TypeError('Cannot mutate a frozen Map');
+    };
+    Object.defineProperties(value, {
+      set: { value: readOnly },
+      delete: { value: readOnly },
+      clear: { value: readOnly }
+    });
+    value.forEach(entry => deepFreeze(entry));
+  }
+
+  Object.freeze(value);
+  Object.values(value).forEach(entry => deepFreeze(entry));
+  return value;
+};
+
+// Apply a move to a frozen state and check the input still matches a snapshot taken beforehand
+const applyFrozen = <T extends GameType>(gameType: T, state: GameStateMap[T], move: GameMoveMap[T]): GameStateMap[T] => {
+  const snapshot = JSON.stringify(state, (_, value) => (value instanceof Map ? Array.from(value.entries()) : value));
+  deepFreeze(state);
+
+  expect(gameLogicService.validateMove(gameType, state, move)).toBe(true);
+  const next = gameLogicService.applyMove(gameType, state, move);
+
+  expect(next).not.toBe(state);
+  expect(JSON.stringify(state, (_, value) => (value instanceof Map ? Array.from(value.entries()) : value))).toBe(snapshot);
+  return next;
+};
+
+describe('chess transitions', () => {
+  const chessMove = (from: string, to: string, promotion?: 'queen'): ChessMove => ({ from, to, piece: 'pawn', promotion, notation: '' });
+
+  it('plays a move without touching the input and shares untouched ranks', () => {
+    const state = gameLogicService.fromFEN(CHESS_START_FEN, ['white', 'black']);
+    const next = applyFrozen(GameType.CHESS, state, chessMove('e2', 'e4'));
+
+    expect(next.board[3][4].piece).toBe('pawn');
+    expect(next.moveHistory).toHaveLength(1);
+    [0, 2, 4, 5, 6, 7].forEach(row => expect(next.board[row]).toBe(state.board[row]));
+  });
+
+  it('handles castling, en passant and promotion', () => {
+    const castled = applyFrozen(
+      GameType.CHESS,
+      gameLogicService.fromFEN('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1'),
+      chessMove('e1', 'g1')
+    );
+    expect(castled.board[0][5].piece).toBe('rook');
+
+    const enPassant = applyFrozen(
+      GameType.CHESS,
+      gameLogicService.fromFEN('4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 1'),
+      chessMove('e5', 'd6')
+    );
+    expect(enPassant.board[4][3].piece).toBeUndefined();
+
+    const promoted = applyFrozen(
+      GameType.CHESS,
+      gameLogicService.fromFEN('4k3/P7/8/8/8/8/8/4K3 w - - 0 1'),
+      chessMove('a7', 'a8', 'queen')
+    );
+    expect(promoted.board[7][0].piece).toBe('queen');
+  });
+
+  it('offers and accepts draws', () => {
+    const state = gameLogicService.fromFEN(CHESS_START_FEN, ['white', 'black']);
+    const offered = applyFrozen(GameType.CHESS, state, { type: 'offer-draw', color: 'white' });
+    const accepted = applyFrozen(GameType.CHESS, offered, { type: 'accept-draw', color: 'black' });
+
+    expect(accepted.drawReason).toBe('agreement');
+  });
+});
+
+describe('chess rules', () => {
+  const chessRules = getGameRules(GameType.CHESS);
+
+  // Moves in long algebraic form, e.g. 'e2e4' or 'a7a8q'
+  const toMove = (lan: string): ChessMove => ({
+    from: lan.slice(0, 2),
+    to: lan.slice(2, 4),
+    piece: 'pawn',
+    promotion: lan[4] === 'q' ? 'queen' : undefined,
+    notation: ''
+  });
+
+  const play = (fen: string, moves: string[]) =>
+    moves.reduce((state, lan) => {
+      expect(gameLogicService.validateMove(GameType.CHESS, state, toMove(lan))).toBe(true);
+      return gameLogicService.applyMove(GameType.CHESS, state, toMove(lan));
+    }, gameLogicService.fromFEN(fen, ['white', 'black']));
+
+  const notation = (state: ReturnType<typeof play>) => state.moveHistory.map(move => move.notation);
+
+  it('has 20 opening moves', () => {
+    expect(chessRules.getLegalMoves(gameLogicService.fromFEN(CHESS_START_FEN))).toHaveLength(20);
+  });
+
+  it("ends fool's mate in checkmate", () => {
+    const mated = play(CHESS_START_FEN, ['f2f3', 'e7e5', 'g2g4', 'd8h4']);
+
+    expect(mated.checkmate).toBe(true);
+    expect(chessRules.getLegalMoves(mated)).toHaveLength(0);
+    expect(gameLogicService.checkGameOver(GameType.CHESS, mated)).toEqual({ isOver: true, winner: 'black' });
+  });
+
+  it('draws by stalemate when the side to move has no legal move and is not in check', () => {
+    const stalemate = play('k7/8/8/1Q6/8/8/8/7K w - - 0 1', ['b5b6']);
+
+    expect(stalemate.inCheck).toBe(false);
+    expect(stalemate.stalemate).toBe(true);
+    expect(gameLogicService.checkGameOver(GameType.CHESS, stalemate)).toEqual({ isOver: true, isDraw: true, reason: 'stalemate' });
+  });
+
+  it('does not castle out of, through or into check', () => {
+    const castles = (fen: string) => ['e1g1', 'e1c1'].map(lan =>
+      gameLogicService.validateMove(GameType.CHESS, gameLogicService.fromFEN(fen), toMove(lan))
+    );
+
+    expect(castles('6k1/8/8/8/8/8/8/R3K2R w KQ - 0 1')).toEqual([true, true]);
+    // Out of check from the e-file, through f1, and into g1
+    expect(castles('4r1k1/8/8/8/8/8/8/R3K2R w KQ - 0 1')).toEqual([false, false]);
+    expect(castles('5rk1/8/8/8/8/8/8/R3K2R w KQ - 0 1')).toEqual([false, true]);
+    expect(castles('6rk/8/8/8/8/8/8/R3K2R w KQ - 0 1')).toEqual([false, true]);
+  });
+
+  it('allows en passant only on the move right after the double push', () => {
+    const pushed = play('4k3/3p4/8/4P3/8/8/8/4K3 b - - 0 1', ['d7d5']);
+    expect(gameLogicService.validateMove(GameType.CHESS, pushed, toMove('e5d6'))).toBe(true);
+
+    const waited = play('4k3/3p4/8/4P3/8/8/8/4K3 b - - 0 1', ['d7d5', 'e1e2', 'e8e7']);
+    expect(gameLogicService.validateMove(GameType.CHESS, waited, toMove('e5d6'))).toBe(false);
+  });
+
+  it('offers every promotion piece', () => {
+    const promotions = gameLogicService.getLegalMoves(gameLogicService.fromFEN('4k3/P7/8/8/8/8/8/4K3 w - - 0 1'), 'a7');
+    expect(promotions.map(move => move.promotion).sort()).toEqual(['bishop', 'knight', 'queen', 'rook']);
+  });
+
+  it('round-trips positions through FEN', () => {
+    [
+      CHESS_START_FEN,
+      'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq e6 0 2',
+      'r3k2r/8/8/8/8/8/8/R3K2R b Kq - 12 40',
+      '8/8/8/8/8/8/8/k6K w - - 99 120'
+    ].forEach(fen => expect(gameLogicService.toFEN(gameLogicService.fromFEN(fen))).toBe(fen));
+
+    expect(gameLogicService.toFEN(play(CHESS_START_FEN, ['e2e4'])))
+      .toBe('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1');
+  });
+
+  it('writes SAN with disambiguation, castling and check suffixes', () => {
+    expect(notation(play('k7/8/8/8/8/8/8/R4RK1 w - - 0 1', ['a1d1']))).toEqual(['Rad1']);
+    expect(notation(play('7k/8/8/R7/8/8/8/R5K1 w - - 0 1', ['a1a3']))).toEqual(['R1a3']);
+    expect(notation(play('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1', ['e1g1', 'e8c8']))).toEqual(['O-O', 'O-O-O']);
+    expect(notation(play('4k3/8/8/8/8/8/8/R3K3 w - - 0 1', ['a1a8']))).toEqual(['Ra8+']);
+    expect(notation(play(CHESS_START_FEN, ['f2f3', 'e7e5', 'g2g4', 'd8h4']))).toEqual(['f3', 'e5', 'g4', 'Qh4#']);
+  });
+
+  it('exports PGN with numbered movetext and the result', () => {
+    const pgn = gameLogicService.toPGN(play(CHESS_START_FEN, ['f2f3', 'e7e5', 'g2g4', 'd8h4']));
+
+    expect(pgn).toContain('[Result "0-1"]');
+    expect(pgn).not.toContain('[FEN');
+    expect(pgn.trim().split('\n').pop()).toBe('1. f3 e5 2. g4 Qh4# 0-1');
+
+    const fromPosition = gameLogicService.toPGN(play('4k3/8/8/8/8/8/8/R3K3 b - - 0 1', ['e8d8']));
+    expect(fromPosition).toContain('[SetUp "1"]');
+    expect(fromPosition).toContain('1... Kd8 *');
+  });
+
+  it('draws by threefold repetition', () => {
+    const shuffle = ['g1f3', 'g8f6', 'f3g1', 'f6g8'];
+    const twice = play(CHESS_START_FEN, [...shuffle, ...shuffle.slice(0, 3)]);
+    expect(twice.isDraw).toBe(false);
+
+    const thrice = play(CHESS_START_FEN, [...shuffle, ...shuffle]);
+    expect(gameLogicService.checkGameOver(GameType.CHESS, thrice))
+      .toEqual({ isOver: true, isDraw: true, reason: 'threefold-repetition' });
+  });
+
+  it('draws by the fifty-move rule, reset by a pawn move or capture', () => {
+    const quiet = play('4k3/8/8/8/8/8/4P3/R3K3 w - - 99 80', ['a1a2']);
+    expect(quiet.drawReason).toBe('fifty-move-rule');
+
+    const pawn = play('4k3/8/8/8/8/8/4P3/R3K3 w - - 99 80', ['e2e3']);
+    expect(pawn.halfmoveClock).toBe(0);
+    expect(pawn.isDraw).toBe(false);
+  });
+
+  it('draws when neither side has mating material', () => {
+    const reason = (fen: string) => gameLogicService.checkGameOver(GameType.CHESS, gameLogicService.fromFEN(fen)).reason;
+
+    expect(reason('4k3/8/8/8/8/8/8/4K3 w - - 0 1')).toBe('insufficient-material');
+    expect(reason('4k3/8/8/8/8/8/8/2B1K3 w - - 0 1')).toBe('insufficient-material');
+    expect(reason('2b1k3/8/8/8/8/8/8/3BK3 w - - 0 1')).toBe('insufficient-material');
+    expect(reason('3bk3/8/8/8/8/8/8/3BK3 w - - 0 1')).toBeUndefined();
+    expect(reason('4k3/8/8/8/8/8/8/3RK3 w - - 0 1')).toBeUndefined();
+
+    // Capturing the last rook leaves bare kings
+    expect(play('4k3/8/8/8/8/8/8/3rK3 w - - 0 1', ['e1d1']).drawReason).toBe('insufficient-material');
+  });
+
+  it('draws by agreement, and a move or a decline withdraws the offer', () => {
+    const offered = gameLogicService.applyMove(GameType.CHESS, gameLogicService.fromFEN(CHESS_START_FEN), { type: 'offer-draw', color: 'white' });
+    expect(gameLogicService.validateMove(GameType.CHESS, offered, { type: 'accept-draw', color: 'white' })).toBe(false);
+
+    const declined = gameLogicService.applyMove(GameType.CHESS, offered, { type: 'decline-draw', color: 'black' });
+    expect(declined.drawOffer).toBeUndefined();
+
+    const ignored = gameLogicService.applyMove(GameType.CHESS, offered, toMove('e2e4'));
+    const replied = gameLogicService.applyMove(GameType.CHESS, ignored, toMove('e7e5'));
+    expect(replied.drawOffer).toBeUndefined();
+
+    const accepted = gameLogicService.applyMove(GameType.CHESS, offered, { type: 'accept-draw', color: 'black' });
+    expect(gameLogicService.checkGameOver(GameType.CHESS, accepted)).toEqual({ isOver: true, isDraw: true, reason: 'agreement' });
+  });
+});
+
+describe('checkers transitions', () => {
+  const emptyBoard = (): (CheckersPiece | null)[][] =>
+    Array.from({ length: 8 }, () => Array.from({ length: 8 }, () => null as CheckersPiece | null));
+
+  const checkersState = (board: (CheckersPiece | null)[][]): CheckersGameState => ({
+    board,
+    currentTurn: 'red',
+    currentPlayer: 'red',
+    players: ['red', 'black'],
+    mustCapture: false,
+    captureSequence: [],
+    quietMoves: 0,
+    positionKeys: [],
+    moveHistory: []
+  });
+
+  it('plays a simple move and shares untouched rows', () => {
+    const state = gameLogicService.createCheckersState(['red', 'black']);
+    const next = applyFrozen(GameType.CHECKERS, state, { from: [5, 0], to: [4, 1] });
+
+    const sharedRows = next.board.map((row, index) => row === state.board[index]);
+    expect(sharedRows).toEqual([true, true, true, true, false, false, true, true]);
+  });
+
+  it('keeps every step of a multi-jump pure', () => {
+    const board = emptyBoard();
+    board[0][0] = { color: 'red', isKing: false };
+    board[1][1] = { color: 'black', isKing: false };
+    board[3][3] = { color: 'black', isKing: false };
+    board[7][7] = { color: 'black', isKing: false };
+
+    const first = applyFrozen(GameType.CHECKERS, checkersState(board), { from: [0, 0], to: [2, 2] });
+    expect(first.board[1][1]).not.toBeNull();
+
+    const second = applyFrozen(GameType.CHECKERS, first, { from: [2, 2], to: [4, 4] });
+    expect(second.board[1][1]).toBeNull();
+    expect(second.board[3][3]).toBeNull();
+    expect(second.board[7]).toBe(first.board[7]);
+  });
+
+  it('splits a recorded multi-jump back into its steps', () => {
+    const board = emptyBoard();
+    board[0][0] = { color: 'red', isKing: false };
+    board[1][1] = { color: 'black', isKing: false };
+    board[3][3] = { color: 'black', isKing: false };
+    board[7][7] = { color: 'black', isKing: false };
+
+    const start = checkersState(board);
+    const first = gameLogicService.applyMove(GameType.CHECKERS, start, { from: [0, 0], to: [2, 2] });
+    const second = gameLogicService.applyMove(GameType.CHECKERS, first, { from: [2, 2], to: [4, 4] });
+
+    expect(second.moveHistory).toHaveLength(1);
+    expect(checkersRules.expandHistoryMove(start, second.moveHistory[0])).toMatchObject([
+      { from: [0, 0], to: [2, 2] },
+      { from: [2, 2], to: [4, 4] }
+    ]);
+  });
+
+  it('offers and accepts draws', () => {
+    const state = gameLogicService.createCheckersState(['red', 'black']);
+    const offered = applyFrozen(GameType.CHECKERS, state, { type: 'offer-draw', color: 'black' });
+    const accepted = applyFrozen(GameType.CHECKERS, offered, { type: 'accept-draw', color: 'red' });
+
+    expect(accepted.drawReason).toBe('agreement');
+  });
+});
+
+describe('checkers rules', () => {
+  type PieceCode = 'r' | 'b' | 'R' | 'B';
+
+  // Red to move on an empty board of the variant's size; lower case letters are men, upper case kings
+  const position = (variant: CheckersVariant, pieces: Record<string, PieceCode>): CheckersGameState => {
+    const start = checkersRules.createCheckersState(['red', 'black'], variant);
+    const board = start.board.map(cells => cells.map((): CheckersPiece | null => null));
+    Object.keys(pieces).forEach(square => {
+      const [row, col] = square.split(',').map(Number);
+      const code = pieces[square];
+      board[row][col] = { color: code.toLowerCase() === 'r' ? 'red' : 'black', isKing: code === code.toUpperCase() };
+    });
+
+    return { ...start, board, currentTurn: 'red', currentPlayer: 'red', positionKeys: [] };
+  };
+
+  const targets = (state: CheckersGameState) => checkersRules.getLegalMoves(state).map(move => move.to);
+
+  const play = (state: CheckersGameState, moves: [number, number][][]) =>
+    moves.reduce((current, [from, to]) => gameLogicService.applyMove(GameType.CHECKERS, current, { from, to }), state);
+
+  it('sets up each variant on its own board', () => {
+    const international = checkersRules.createInitialState(['p1', 'p2'], { variant: 'international' });
+    const count = (state: CheckersGameState, color: CheckersPiece['color']) =>
+      state.board.reduce((total, cells) => total + cells.filter(piece => piece?.color === color).length, 0);
+
+    expect(international.board).toHaveLength(10);
+    expect(count(international, 'red')).toBe(20);
+    expect(count(international, 'black')).toBe(20);
+    expect(international.currentTurn).toBe('red');
+    expect(checkersRules.getLegalMoves(international)).toHaveLength(9);
+
+    const russian = checkersRules.createInitialState(['p1', 'p2'], { variant: 'russian' });
+    expect(russian.board).toHaveLength(8);
+    expect(count(russian, 'red')).toBe(12);
+    expect(russian.currentTurn).toBe('red');
+    expect(checkersRules.getLegalMoves(russian)).toHaveLength(7);
+
+    expect(checkersRules.createInitialState(['p1', 'p2']).currentTurn).toBe('black');
+  });
+
+  it('lets men capture backwards outside American checkers', () => {
+    const pieces: Record<string, PieceCode> = { '4,4': 'r', '3,3': 'b' };
+
+    expect(checkersRules.getLegalMoves(position('american', pieces)).some(move => move.captured)).toBe(false);
+    expect(checkersRules.getLegalMoves(position('russian', pieces))).toEqual([{ from: [4, 4], to: [2, 2], captured: [[3, 3]] }]);
+  });
+
+  it('only allows the sequences taking the most pieces under the majority rule', () => {
+    const pieces: Record<string, PieceCode> = { '2,2': 'r', '3,1': 'b', '3,3': 'b', '5,5': 'b' };
+
+    expect(targets(position('russian', pieces))).toEqual(expect.arrayContaining([[4, 0], [4, 4]]));
+    expect(targets(position('international', pieces))).toEqual([[4, 4]]);
+
+    const finished = play(position('international', pieces), [[[2, 2], [4, 4]], [[4, 4], [6, 6]]]);
+    expect(finished.board[3][3]).toBeNull();
+    expect(finished.board[5][5]).toBeNull();
+    expect(finished.board[3][1]).toEqual({ color: 'black', isKing: false });
+    expect(finished.currentTurn).toBe('black');
+  });
+
+  it('slides flying kings and lets them capture from a distance', () => {
+    expect(targets(position('russian', { '0,1': 'R', '7,0': 'b' }))).toHaveLength(7);
+    expect(targets(position('american', { '0,1': 'R', '7,0': 'b' }))).toHaveLength(2);
+
+    const pieces: Record<string, PieceCode> = { '0,1': 'R', '3,4': 'b' };
+    expect(targets(position('russian', pieces))).toEqual([[4, 5], [5, 6], [6, 7]]);
+    expect(targets({ ...position('american', pieces), flyingKings: true })).toEqual([[4, 5], [5, 6], [6, 7]]);
+    expect(checkersRules.getLegalMoves(position('american', pieces)).some(move => move.captured)).toBe(false);
+  });
+
+  it('lets the setup switch flying kings on or off', () => {
+    const american = checkersRules.createInitialState(['p1', 'p2'], { flyingKings: true });
+    expect(american.flyingKings).toBe(true);
+    expect(checkersRules.getStartState(american).flyingKings).toBe(true);
+
+    const pieces: Record<string, PieceCode> = { '0,1': 'R', '3,4': 'b' };
+    const russian = checkersRules.createInitialState(['p1', 'p2'], { variant: 'russian', flyingKings: false });
+    const grounded = { ...position('russian', pieces), flyingKings: russian.flyingKings };
+    expect(checkersRules.getLegalMoves(grounded).some(move => move.captured)).toBe(false);
+    expect(checkersRules.createInitialState(['p1', 'p2'], { variant: 'russian' }).flyingKings).toBeUndefined();
+  });
+
+  it('makes a flying king land where it can keep capturing', () => {
+    // Of the squares beyond 2,3 only 4,5 lines the king up with the man on 5,4
+    const state = position('russian', { '0,1': 'R', '2,3': 'b', '5,4': 'b', '7,6': 'b' });
+    expect(targets(state)).toEqual([[4, 5]]);
+
+    const landed = play(state, [[[0, 1], [4, 5]]]);
+    expect(landed.currentTurn).toBe('red');
+    expect(targets(landed)).toEqual([[6, 3], [7, 2]]);
+
+    const finished = play(landed, [[[4, 5], [6, 3]]]);
+    expect(finished.board[2][3]).toBeNull();
+    expect(finished.board[5][4]).toBeNull();
+    expect(finished.moveHistory).toEqual([{ from: [0, 1], to: [6, 3], captured: [[2, 3], [5, 4]] }]);
+  });
+
+  it('ends the game when the side to move is blocked or out of pieces', () => {
+    const blocked = position('american', { '2,1': 'r', '3,0': 'b', '3,2': 'b', '4,3': 'b' });
+    expect(checkersRules.checkGameOver(blocked)).toEqual({ isOver: true, winner: 'black' });
+    expect(checkersRules.checkGameOver({ ...blocked, currentTurn: 'black', currentPlayer: 'black' })).toEqual({ isOver: false });
+
+    const captured = play(position('american', { '2,1': 'r', '3,2': 'b' }), [[[2, 1], [4, 3]]]);
+    expect(checkersRules.checkGameOver(captured)).toEqual({ isOver: true, winner: 'red' });
+  });
+
+  it('draws once the move limit passes without a capture or promotion', () => {
+    const state = { ...position('american', { '0,1': 'R', '7,6': 'B', '5,2': 'b' }), drawMoveLimit: 3 };
+
+    const quiet = play(state, [[[0, 1], [1, 0]], [[7, 6], [6, 7]]]);
+    expect(quiet.quietMoves).toBe(2);
+    expect(checkersRules.checkGameOver(quiet).isOver).toBe(false);
+    expect(checkersRules.checkGameOver(play(quiet, [[[1, 0], [0, 1]]]))).toEqual({ isOver: true, isDraw: true, reason: 'move-limit' });
+
+    // Moving a man is not progress, but a capture is
+    const manMoved = play(quiet, [[[1, 0], [2, 1]], [[5, 2], [4, 3]]]);
+    expect(manMoved.quietMoves).toBe(4);
+    expect(manMoved.drawReason).toBe('move-limit');
+
+    const reset = play({ ...state, drawMoveLimit: 10 }, [
+      [[0, 1], [1, 2]], [[5, 2], [4, 3]], [[1, 2], [2, 3]], [[4, 3], [3, 4]], [[2, 3], [4, 5]]
+    ]);
+    expect(reset.quietMoves).toBe(0);
+  });
+
+  it('takes a move limit from the setup', () => {
+    const setup = checkersRules.createInitialState(['p1', 'p2'], { drawMoveLimit: 2 });
+    expect(checkersRules.getStartState(setup).drawMoveLimit).toBe(2);
+
+    const state = { ...position('american', { '0,1': 'R', '7,6': 'B' }), drawMoveLimit: setup.drawMoveLimit };
+    const quiet = play(state, [[[0, 1], [1, 0]], [[7, 6], [6, 7]]]);
+    expect(checkersRules.checkGameOver(quiet)).toEqual({ isOver: true, isDraw: true, reason: 'move-limit' });
+
+    expect(() => checkersRules.createInitialState(['p1', 'p2'], { drawMoveLimit: 0 })).toThrow('Invalid checkers move limit');
+  });
+
+  it('draws when the same position comes round a third time', () => {
+    const shuffle: [number, number][][] = [[[0, 1], [1, 0]], [[7, 6], [6, 7]], [[1, 0], [0, 1]], [[6, 7], [7, 6]]];
+    let state = position('american', { '0,1': 'R', '7,6': 'B' });
+
+    for (let ply = 1; ply <= 9; ply++) {
+      state = play(state, [shuffle[(ply - 1) % shuffle.length]]);
+      expect(checkersRules.checkGameOver(state).isOver).toBe(ply === 9);
+    }
+    expect(checkersRules.checkGameOver(state)).toEqual({ isOver: true, isDraw: true, reason: 'threefold-repetition' });
+  });
+});
+
+describe('uno transitions', () => {
+  const card = (id: string, color: UnoCard['color'], value: UnoCard['value']): UnoCard => ({ id, color, value });
+
+  const unoState = (): UnoGameState => ({
+    players: ['a', 'b', 'c'],
+    currentPlayer: 'a',
+    direction: 1,
+    drawStack: 0,
+    deck: [card('d1', 'blue', 1), card('d2', 'green', 2), card('d3', 'yellow', 3)],
+    discardPile: [card('t', 'red', 5)],
+    playerHands: new Map([
+      ['a', [card('a1', 'red', 'draw2'), card('a2', 'wild', 'draw4'), card('a3', 'red', 7)]],
+      ['b', [card('b1', 'blue', 9), card('b2', 'green', 4)]],
+      ['c', [card('c1', 'yellow', 1)]]
+    ])
+  });
+
+  it('plays and draws without touching the input', () => {
+    const played = applyFrozen(GameType.UNO, unoState(), { type: 'play', playerId: 'a', cardId: 'a1', timestamp: 1000 });
+    expect(played.drawStack).toBe(2);
+
+    const drawn = applyFrozen(GameType.UNO, played, { type: 'draw', playerId: 'b' });
+    expect(drawn.playerHands.get('b')).toHaveLength(4);
+    expect(drawn.playerHands.get('c')).toBe(played.playerHands.get('c'));
+  });
+
+  it('resolves a wild draw four challenge', () => {
+    const state = unoState();
+    const played = applyFrozen(GameType.UNO, state, { type: 'play', playerId: 'a', cardId: 'a2', color: 'blue', timestamp: 1000 });
+    const challenged = applyFrozen(GameType.UNO, played, { type: 'challenge-draw4', playerId: 'b' });
+
+    // 'a' held a red card, so the bluff is caught and 'a' draws the four
+    expect(challenged.playerHands.get('a')!.length).toBeGreaterThan(played.playerHands.get('a')!.length);
+  });
+
+  const withRules = (state: UnoGameState, rules: Partial<UnoHouseRules>): UnoGameState => ({
+    ...state,
+    houseRules: { ...DEFAULT_UNO_HOUSE_RULES, ...rules }
+  });
+
+  const withHand = (state: UnoGameState, playerId: string, hand: UnoCard[]): UnoGameState => ({
+    ...state,
+    playerHands: new Map(state.playerHands).set(playerId, hand)
+  });
+
+  it('swaps hands on a seven with the 7-0 house rule', () => {
+    const state = withRules(unoState(), { sevenZero: true });
+    const swapped = applyFrozen(GameType.UNO, state, { type: 'play', playerId: 'a', cardId: 'a3', targetPlayerId: 'b', timestamp: 1000 });
+
+    expect(swapped.playerHands.get('a')!.map(c => c.id)).toEqual(['b1', 'b2']);
+  });
+
+  it('times UNO calls and challenges against the call window', () => {
+    const state = withHand(unoState(), 'a', [card('a1', 'red', 'draw2'), card('a3', 'red', 7)]);
+    const challenge = (timestamp?: number): UnoMove => ({ type: 'challenge-uno', playerId: 'c', targetPlayerId: 'a', timestamp });
+
+    // Plays, calls and challenges have to say when they were made
+    expect(unoRules.validateMove(state, { type: 'play', playerId: 'a', cardId: 'a3' })).toBe(false);
+    expect(unoRules.validateMove(state, { type: 'call-uno', playerId: 'a' })).toBe(false);
+
+    const oneCard = applyFrozen(GameType.UNO, state, { type: 'play', playerId: 'a', cardId: 'a3', timestamp: 1000 });
+    expect(oneCard.unoCall).toEqual({ playerId: 'a', called: false, playedAt: 1000 });
+    expect(unoRules.validateMove(oneCard, challenge())).toBe(false);
+    expect(unoRules.validateMove(oneCard, challenge(4001))).toBe(false);
+    expect(unoRules.validateMove({ ...oneCard, unoCallWindow: 5000 }, challenge(4001))).toBe(true);
+
+    const caught = applyFrozen(GameType.UNO, oneCard, challenge(4000));
+    expect(caught.playerHands.get('a')).toHaveLength(3);
+    expect(caught.unoCall).toBeUndefined();
+
+    // A late call still counts from when the card was played, and closes the window
+    const called = applyFrozen(GameType.UNO, oneCard, { type: 'call-uno', playerId: 'a', timestamp: 1500 });
+    expect(called.unoCall).toEqual({ playerId: 'a', called: true, playedAt: 1000 });
+    expect(unoRules.validateMove(called, challenge(2000))).toBe(false);
+
+    // So does calling before playing the second-to-last card
+    const early = applyFrozen(GameType.UNO, state, { type: 'call-uno', playerId: 'a', timestamp: 500 });
+    const played = applyFrozen(GameType.UNO, early, { type: 'play', playerId: 'a', cardId: 'a3', timestamp: 1000 });
+    expect(played.unoCall).toEqual({ playerId: 'a', called: true, playedAt: 1000 });
+    expect(unoRules.validateMove(played, challenge(2000))).toBe(false);
+  });
+
+  it('lets a player jump in out of turn with an identical card', () => {
+    const base = withHand({ ...unoState(), discardPile: [card('t', 'red', 7)] }, 'c', [card('c1', 'yellow', 1), card('c7', 'red', 7)]);
+    const jumpIn = withRules(base, { jumpIn: true });
+
+    expect(unoRules.validateMove(base, { type: 'play', playerId: 'c', cardId: 'c7', timestamp: 1000 })).toBe(false);
+    expect(unoRules.validateMove(jumpIn, { type: 'play', playerId: 'b', cardId: 'b1', timestamp: 1000 })).toBe(false);
+
+    const jumped = applyFrozen(GameType.UNO, jumpIn, { type: 'play', playerId: 'c', cardId: 'c7', timestamp: 1000 });
+    expect(jumped.playerHands.get('c')!.map(c => c.id)).toEqual(['c1']);
+    expect(jumped.currentPlayer).toBe('a');
+  });
+
+  it('needs an opponent to swap with when jumping in with a seven under 7-0', () => {
+    const base = withHand({ ...unoState(), discardPile: [card('t', 'red', 7)] }, 'c', [card('c1', 'yellow', 1), card('c7', 'red', 7)]);
+    const state = withRules(base, { jumpIn: true, sevenZero: true });
+
+    [undefined, 'c', 'nobody'].forEach(targetPlayerId => {
+      expect(unoRules.validateMove(state, { type: 'play', playerId: 'c', cardId: 'c7', targetPlayerId, timestamp: 1000 })).toBe(false);
+    });
+
+    const swapped = applyFrozen(GameType.UNO, state, { type: 'play', playerId: 'c', cardId: 'c7', targetPlayerId: 'a', timestamp: 1000 });
+    expect(swapped.playerHands.get('c')!.map(c => c.id)).toEqual(['a1', 'a2', 'a3']);
+    expect(swapped.playerHands.get('a')!.map(c => c.id)).toEqual(['c1']);
+  });
+
+  it('stacks draw twos and wild draw fours only with their house rules', () => {
+    const state = withHand(unoState(), 'b', [card('b1', 'blue', 9), card('b3', 'blue', 'draw2'), card('b4', 'wild', 'draw4')]);
+    const drawTwo = { type: 'play', playerId: 'b', cardId: 'b3', timestamp: 1000 } as const;
+    const drawFour = { type: 'play', playerId: 'b', cardId: 'b4', color: 'green', timestamp: 1000 } as const;
+
+    const twoPlayed = gameLogicService.applyMove(GameType.UNO, state, { type: 'play', playerId: 'a', cardId: 'a1', timestamp: 1000 });
+    expect(unoRules.validateMove(twoPlayed, drawTwo)).toBe(false);
+
+    const stackedTwo = applyFrozen(GameType.UNO, withRules(twoPlayed, { stackDrawTwo: true }), drawTwo);
+    expect(stackedTwo.drawStack).toBe(4);
+    expect(stackedTwo.currentPlayer).toBe('c');
+
+    // The stack is paid in full; the deck runs short, so the discard pile is reshuffled under the top card
+    const paid = applyFrozen(GameType.UNO, stackedTwo, { type: 'draw', playerId: 'c' });
+    expect(paid.playerHands.get('c')).toHaveLength(5);
+    expect(paid.drawStack).toBe(0);
+    expect(paid.currentPlayer).toBe('a');
+
+    const fourPlayed = gameLogicService.applyMove(
+      GameType.UNO, state, { type: 'play', playerId: 'a', cardId: 'a2', color: 'blue', timestamp: 1000 }
+    );
+    expect(unoRules.validateMove(fourPlayed, drawFour)).toBe(false);
+    // Only a card of the same value stacks
+    expect(unoRules.validateMove(withRules(fourPlayed, { stackDrawTwo: true, stackDrawFour: true }), drawTwo)).toBe(false);
+
+    const stackedFour = applyFrozen(GameType.UNO, withRules(fourPlayed, { stackDrawFour: true }), drawFour);
+    expect(stackedFour.drawStack).toBe(8);
+    expect(stackedFour.currentColor).toBe('green');
+  });
+
+  it('keeps drawing until a playable card turns up with draw-to-match', () => {
+    const deck = [card('d1', 'red', 1), card('d2', 'green', 2), card('d3', 'yellow', 3)];
+    const state = withHand({ ...unoState(), deck }, 'a', [card('a4', 'blue', 9)]);
+
+    const single = applyFrozen(GameType.UNO, state, { type: 'draw', playerId: 'a' });
+    expect(single.playerHands.get('a')!.map(c => c.id)).toEqual(['a4', 'd3']);
+    expect(single.currentPlayer).toBe('b');
+
+    const matched = applyFrozen(GameType.UNO, withRules(state, { drawToMatch: true }), { type: 'draw', playerId: 'a' });
+    expect(matched.playerHands.get('a')!.map(c => c.id)).toEqual(['a4', 'd3', 'd2', 'd1']);
+    expect(matched.drawnCardId).toBe('d1');
+    expect(matched.currentPlayer).toBe('a');
+  });
+
+  it('makes a playable drawn card be played with force play', () => {
+    const state = withHand(unoState(), 'a', [card('a4', 'blue', 9)]);
+    const playable = { ...state, deck: [card('d1', 'red', 1)] };
+
+    const drawn = applyFrozen(GameType.UNO, playable, { type: 'draw', playerId: 'a' });
+    expect(unoRules.validateMove(drawn, { type: 'pass', playerId: 'a' })).toBe(true);
+
+    const forced = applyFrozen(GameType.UNO, withRules(playable, { forcePlay: true }), { type: 'draw', playerId: 'a' });
+    expect(unoRules.validateMove(forced, { type: 'pass', playerId: 'a' })).toBe(false);
+    expect(unoRules.validateMove(forced, { type: 'play', playerId: 'a', cardId: 'a4', timestamp: 1000 })).toBe(false);
+    expect(unoRules.validateMove(forced, { type: 'play', playerId: 'a', cardId: 'd1', timestamp: 1000 })).toBe(true);
+  });
+
+  it('scores a round from the cards left in the other hands', () => {
+    const hands = new Map([
+      ['a', [card('a9', 'red', 9)]],
+      ['b', [card('b1', 'blue', 9), card('b3', 'blue', 'skip'), card('b4', 'wild', 'wild')]],
+      ['c', [card('c1', 'yellow', 1)]]
+    ]);
+    const state = { ...unoState(), playerHands: hands };
+
+    expect(unoRules.checkGameOver(state).isOver).toBe(false);
+
+    const finished = applyFrozen(GameType.UNO, state, { type: 'play', playerId: 'a', cardId: 'a9', timestamp: 1000 });
+    // 9 + 20 for the skip + 50 for the wild, and 1
+    expect(unoRules.checkGameOver(finished)).toMatchObject({ isOver: true, winner: 'a', scores: { a: 80 } });
+    expect(unoRules.checkGameOver(finished).rounds).toBeUndefined();
+  });
+
+  it('deals new rounds in match mode until a player reaches the target score', () => {
+    // Leave the player to move one card matching the top card, and the others the given hands
+    const lastCardFor = (state: UnoGameState, others: Record<string, UnoCard[]>): UnoGameState => {
+      const topCard = state.discardPile[state.discardPile.length - 1];
+      const playerHands = new Map(state.playerHands).set(state.currentPlayer, [{ ...topCard, id: 'last' }]);
+      Object.keys(others).forEach(playerId => playerHands.set(playerId, others[playerId]));
+      return { ...state, playerHands };
+    };
+
+    const start = gameLogicService.createInitialState(GameType.UNO, ['a', 'b', 'c'], { matchTargetScore: 100, seed: 'match' });
+    expect(start.match).toEqual({ targetScore: 100, scores: {}, rounds: [] });
+
+    const firstRound = lastCardFor(start, { b: [card('b9', 'blue', 9)], c: [card('cs', 'green', 'skip')] });
+    const secondRound = applyFrozen(GameType.UNO, firstRound, { type: 'play', playerId: 'a', cardId: 'last', timestamp: 1000 });
+
+    expect(secondRound.match).toEqual({ targetScore: 100, scores: { a: 29 }, rounds: [{ round: 1, winner: 'a', points: 29 }] });
+    expect(unoRules.checkGameOver(secondRound).isOver).toBe(false);
+    // A fresh deal, led by the next player round the table
+    expect(Array.from(secondRound.playerHands.values()).every(hand => hand.length === 7)).toBe(true);
+    expect(secondRound.discardPile).toHaveLength(1);
+    expect(secondRound.currentPlayer).toBe('b');
+
+    const finalRound = lastCardFor(secondRound, { a: [card('a1', 'wild', 'draw4')], c: [card('c1', 'wild', 'wild')] });
+    const finished = applyFrozen(GameType.UNO, finalRound, { type: 'play', playerId: 'b', cardId: 'last', timestamp: 2000 });
+
+    expect(unoRules.checkGameOver(finished)).toMatchObject({
+      isOver: true,
+      winner: 'b',
+      scores: { a: 29, b: 100 },
+      rounds: [{ round: 1, winner: 'a', points: 29 }, { round: 2, winner: 'b', points: 100 }]
+    });
+  });
+});
+
+describe('game registry', () => {
+  it.each(Object.values(GameType))('sets up %s with legal moves that validate and survive serialization', gameType => {
+    const state = gameLogicService.createInitialState(gameType, ['p1', 'p2']);
+    const rules = getGameRules(gameType);
+    const moves = rules.getLegalMoves(state);
+
+    expect(moves.length).toBeGreaterThan(0);
+    moves.forEach(move => expect(rules.validateMove(state, move)).toBe(true));
+
+    const restored = gameLogicService.deserialize(gameType, gameLogicService.serialize(gameType, state));
+    expect(restored).toEqual(state);
+  });
+
+  it.each([GameType.CHESS, GameType.CHECKERS, GameType.CONNECT_FOUR, GameType.CARO, GameType.XIANGQI])(
+    'replays %s from its move history',
+    gameType => {
+      const positions = [gameLogicService.createInitialState(gameType, ['p1', 'p2'])];
+      for (let ply = 0; ply < 6; ply++) {
+        const state = positions[positions.length - 1];
+        const moves = getGameRules(gameType).getLegalMoves(state);
+        positions.push(gameLogicService.applyMove(gameType, state, moves[moves.length - 1]));
+      }
+
+      expect(gameLogicService.replayPositions(gameType, positions[positions.length - 1])).toEqual(positions);
+    }
+  );
+
+  it('rebuilds every state of a move log and stops at an illegal move', () => {
+    const start = gameLogicService.createInitialState(GameType.CONNECT_FOUR, ['p1', 'p2']);
+    const states = gameLogicService.replayMoves(GameType.CONNECT_FOUR, start, [{ column: 3 }, { column: 3 }]);
+
+    expect(states).toHaveLength(3);
+    expect(states[0]).toBe(start);
+    expect(states[2].board[4][3]).toBe('yellow');
+    expect(() => gameLogicService.replayMoves(GameType.CONNECT_FOUR, start, [{ column: 3 }, { column: 9 }]))
+      .toThrow('Move 2 of the replay is not legal');
+  });
+
+  it('deals a full UNO deck', () => {
+    const state = gameLogicService.createInitialState(GameType.UNO, ['p1', 'p2', 'p3']);
+    const hands = Array.from(state.playerHands.values());
+
+    expect(hands.every(hand => hand.length === 7)).toBe(true);
+    expect(state.deck.length + state.discardPile.length + hands.length * 7).toBe(108);
+  });
+
+  it('builds a 108-card UNO deck with unique ids', () => {
+    const deck = createUnoDeck();
+
+    expect(deck).toHaveLength(UNO_DECK_SIZE);
+    expect(new Set(deck.map(card => card.id)).size).toBe(UNO_DECK_SIZE);
+    expect(deck.filter(card => card.color === 'wild')).toHaveLength(8);
+  });
+
+  it('deals the same UNO game from the same seed and commits to it', () => {
+    const deal = (seed: string) => gameLogicService.createInitialState(GameType.UNO, ['p1', 'p2'], { seed });
+    const state = deal('test-seed');
+
+    expect(deal('test-seed')).toEqual(state);
+    expect(deal('other-seed').playerHands).not.toEqual(state.playerHands);
+    expect(unoRules.verifySeed(state, 'test-seed')).toBe(true);
+    expect(unoRules.verifySeed(state, 'other-seed')).toBe(false);
+  });
+
+  it('keeps the UNO seed out of the shared state and reveals it once the game is over', () => {
+    const state = gameLogicService.createInitialState(GameType.UNO, ['p1', 'p2'], { seed: 'secret-seed' });
+
+    expect(state.seedCommitment).toBe(sha256('secret-seed'));
+    expect(gameLogicService.serialize(GameType.UNO, state)).not.toContain('secret-seed');
+    expect(unoRules.checkGameOver(state).seed).toBeUndefined();
+
+    const finished = { ...state, playerHands: new Map(state.playerHands).set('p1', []) };
+    expect(unoRules.checkGameOver(finished)).toMatchObject({ isOver: true, winner: 'p1', seed: 'secret-seed' });
+  });
+
+  it('hashes UTF-8 text with SHA-256', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256('é')).toBe(sha256('\u00e9'));
+    expect(sha256('é')).not.toBe(sha256('e\u0301'));
+  });
+
+  it('reshuffles the discard pile the same way on every replay', () => {
+    const state: UnoGameState = {
+      ...gameLogicService.createInitialState(GameType.UNO, ['p1', 'p2'], { seed: 'reshuffle' }),
+      deck: []
+    };
+    state.discardPile = createUnoDeck().filter(card => !Array.from(state.playerHands.values()).some(hand => hand.includes(card)));
+
+    const draw = () => gameLogicService.applyMove(GameType.UNO, state, { type: 'draw', playerId: 'p1' });
+    expect(draw()).toEqual(draw());
+    expect(draw().shuffleCount).toBe(state.shuffleCount! + 1);
+  });
+
+  it('leaves reshuffling to the engine that dealt the game', () => {
+    const dealt = gameLogicService.createInitialState(GameType.UNO, ['p1', 'p2'], { seed: 'dealer' });
+    // What a client holds: the dealer's state, but a commitment to a seed it was never given
+    const client: UnoGameState = { ...dealt, deck: [], seedCommitment: sha256('unknown') };
+    client.discardPile = createUnoDeck().filter(card => !Array.from(dealt.playerHands.values()).some(hand => hand.includes(card)));
+
+    const drawn = gameLogicService.applyMove(GameType.UNO, client, { type: 'draw', playerId: 'p1' });
+    expect(drawn.deck).toEqual(client.discardPile.slice(0, -2));
+    expect(drawn.playerHands.get('p1')!.slice(-1)).toEqual(client.discardPile.slice(-2, -1));
+  });
+
+  it('reshuffles a serialized game once its seed is registered', () => {
+    const dealt: UnoGameState = {
+      ...gameLogicService.createInitialState(GameType.UNO, ['p1', 'p2'], { seed: 'replayed' }),
+      deck: []
+    };
+    dealt.discardPile = createUnoDeck().filter(card => !Array.from(dealt.playerHands.values()).some(hand => hand.includes(card)));
+    const draw = (state: UnoGameState) => gameLogicService.applyMove(GameType.UNO, state, { type: 'draw', playerId: 'p1' });
+    const shuffled = draw(dealt);
+
+    unoRules.releaseSeed(dealt.seedCommitment!);
+    const restored = gameLogicService.deserialize(GameType.UNO, gameLogicService.serialize(GameType.UNO, dealt));
+    expect(draw(restored).deck).toEqual(dealt.discardPile.slice(0, -2));
+
+    expect(unoRules.registerSeed(restored.seedCommitment!, 'other-seed')).toBe(false);
+    expect(unoRules.registerSeed(restored.seedCommitment!, 'replayed')).toBe(true);
+    expect(draw(restored).deck).toEqual(shuffled.deck);
+    unoRules.releaseSeed(restored.seedCommitment!);
+  });
+});
+
+describe('connect four and caro', () => {
+  const playAll = <T extends GameType.CONNECT_FOUR | GameType.CARO>(gameType: T, moves: GameMoveMap[T][], options?: GameOptionsMap[T]) =>
+    moves.reduce((state, move) => {
+      expect(gameLogicService.validateMove(gameType, state, move)).toBe(true);
+      return gameLogicService.applyMove(gameType, state, move);
+    }, gameLogicService.createInitialState(gameType, ['p1', 'p2'], options));
+
+  it('stacks connect four discs and ends on four in a column', () => {
+    const state = playAll(GameType.CONNECT_FOUR, [0, 1, 0, 1, 0, 1, 0].map(column => ({ column })));
+
+    expect(state.board[2][0]).toBe('red');
+    expect(state.winningLine).toHaveLength(4);
+    expect(gameLogicService.checkGameOver(GameType.CONNECT_FOUR, state)).toEqual({ isOver: true, winner: 'red' });
+    expect(gameLogicService.validateMove(GameType.CONNECT_FOUR, state, { column: 2 })).toBe(false);
+  });
+
+  it('rejects a full connect four column', () => {
+    const state = playAll(GameType.CONNECT_FOUR, [3, 3, 3, 3, 3, 3].map(column => ({ column })));
+    expect(gameLogicService.validateMove(GameType.CONNECT_FOUR, state, { column: 3 })).toBe(false);
+  });
+
+  it('plays tic-tac-toe on a three by three caro board', () => {
+    const state = playAll(GameType.CARO, [[0, 0], [1, 0], [0, 1], [1, 1], [0, 2]].map(([row, col]) => ({ row, col })), { size: 3 });
+    expect(gameLogicService.checkGameOver(GameType.CARO, state)).toEqual({ isOver: true, winner: 'x' });
+  });
+
+  it('does not count a five blocked at both ends when the rule is on', () => {
+    // X fills row 7 from column 2 to 6 while O holds columns 1 and 7
+    const moves = [[7, 2], [7, 1], [7, 3], [7, 7], [7, 4], [0, 0], [7, 5], [0, 2], [7, 6]].map(([row, col]) => ({ row, col }));
+
+    const blocked = playAll(GameType.CARO, moves, { blockedEnds: true });
+    expect(gameLogicService.checkGameOver(GameType.CARO, blocked).isOver).toBe(false);
+
+    const open = playAll(GameType.CARO, moves, { blockedEnds: false });
+    expect(gameLogicService.checkGameOver(GameType.CARO, open)).toEqual({ isOver: true, winner: 'x' });
+  });
+});
+
+describe('xiangqi', () => {
+  const xiangqiMove = (from: string, to: string) => ({ from, to, piece: 'chariot' as const, notation: '' });
+
+  const play = (state: XiangqiGameState, moves: [string, string][]) =>
+    moves.reduce((current, [from, to]) => {
+      expect(gameLogicService.validateMove(GameType.XIANGQI, current, xiangqiMove(from, to))).toBe(true);
+      return gameLogicService.applyMove(GameType.XIANGQI, current, xiangqiMove(from, to));
+    }, state);
+
+  // Start from an empty board holding only the listed pieces, red to move
+  const position = (pieces: [number, number, Partial<XiangqiBoard[number][number]>][]) => {
+    const state = gameLogicService.createInitialState(GameType.XIANGQI, ['red', 'black']);
+    const board: XiangqiBoard = state.board.map(cells => cells.map(() => ({})));
+    pieces.forEach(([row, col, square]) => {
+      board[row][col] = square;
+    });
+    return { ...state, board };
+  };
+
+  it('has 44 opening moves and records them in WXF notation', () => {
+    const state = gameLogicService.createInitialState(GameType.XIANGQI, ['red', 'black']);
+    expect(getGameRules(GameType.XIANGQI).getLegalMoves(state)).toHaveLength(44);
+
+    const next = play(state, [['h2', 'e2'], ['b9', 'c7'], ['b0', 'c2']]);
+    expect(next.moveHistory.map(move => move.notation)).toEqual(['C2.5', 'H2+3', 'H8+7']);
+  });
+
+  it('captures with a cannon only over a single screen', () => {
+    const state = gameLogicService.createInitialState(GameType.XIANGQI, ['red', 'black']);
+
+    expect(gameLogicService.validateMove(GameType.XIANGQI, state, xiangqiMove('h2', 'h7'))).toBe(false);
+    const next = play(state, [['h2', 'h9']]);
+    expect(next.moveHistory[0]).toMatchObject({ captured: 'horse', notation: 'C2+7' });
+  });
+
+  it('keeps generals from facing each other on an open file', () => {
+    const state = position([
+      [0, 4, { piece: 'general', color: 'red' }],
+      [9, 3, { piece: 'general', color: 'black' }]
+    ]);
+
+    expect(gameLogicService.validateMove(GameType.XIANGQI, state, xiangqiMove('e0', 'd0'))).toBe(false);
+    expect(gameLogicService.validateMove(GameType.XIANGQI, state, xiangqiMove('e0', 'e1'))).toBe(true);
+  });
+
+  it('loses the game for perpetual check', () => {
+    const state = position([
+      [0, 3, { piece: 'general', color: 'red' }],
+      [7, 0, { piece: 'chariot', color: 'red' }],
+      [8, 4, { piece: 'general', color: 'black' }]
+    ]);
+    const cycle: [string, string][] = [['a8', 'a9'], ['e9', 'e8'], ['a9', 'a8'], ['e8', 'e9']];
+    const next = play(state, [['a7', 'a8'], ['e8', 'e9'], ...cycle, ...cycle.slice(0, 3)]);
+
+    expect(next.inCheck).toBe(true);
+    expect(gameLogicService.checkGameOver(GameType.XIANGQI, next)).toEqual({
+      isOver: true,
+      winner: 'black',
+      reason: 'perpetual-check'
+    });
+  });
+});
+
+describe('wire states and moves', () => {
+  // What a state looks like after a trip through JSON, Maps included
+  const overTheWire = (state: object): unknown =>
+    JSON.parse(JSON.stringify(state, (_, value) => value instanceof Map ? Object.fromEntries(value) : value));
+
+  it('reads every game state back from JSON', () => {
+    Object.values(GameType).forEach(gameType => {
+      const state = gameLogicService.createInitialState(gameType, ['p1', 'p2']);
+      expect(gameLogicService.parseState(gameType, overTheWire(state))).toEqual(state);
+    });
+
+    const uno = gameLogicService.parseState(GameType.UNO, overTheWire(gameLogicService.createInitialState(GameType.UNO, ['p1', 'p2'])));
+    expect(uno!.playerHands.get('p1')).toHaveLength(7);
+  });
+
+  it('turns down malformed states and moves', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const caro = overTheWire(gameLogicService.createInitialState(GameType.CARO, ['p1', 'p2'])) as Record<string, unknown>;
+
+    expect(gameLogicService.parseState(GameType.CARO, { ...caro, board: 'x' })).toBeUndefined();
+    expect(gameLogicService.parseState(GameType.UNO, caro)).toBeUndefined();
+    expect(gameLogicService.parseMove(GameType.CONNECT_FOUR, { column: '3' })).toBeUndefined();
+    expect(error).toHaveBeenCalledTimes(3);
+
+    expect(gameLogicService.parseMove(GameType.CONNECT_FOUR, { column: 3 })).toEqual({ column: 3 });
+    expect(gameLogicService.parseMove(GameType.CHESS, { type: 'offer-draw', color: 'white' })).toEqual({ type: 'offer-draw', color: 'white' });
+    error.mockRestore();
+  });
+});
@@ -1,12 +1,29 @@
 import { apiService } from './api';
-import { Game, GameType, GameStatus, Player } from '../types';
+import { Game, GameType, GameStatus, Player, TimeControl, TimeControlPreset, UnoHouseRules } from '../types';
+import { BaseGameState, CheckersVariant, GameOptionsMap, GameOverResult } from './gameLogicService';
+import { AIDifficulty, AI_DIFFICULTIES } from './aiService';
+import { clockService } from './clockService';
 
 export interface CreateGameOptions {
   type: GameType;
   isPrivate?: boolean;
   maxPlayers?: number;
   timeLimit?: number;
+  // A preset such as 'blitz', or a custom clock
+  timeControl?: TimeControlPreset | TimeControl;
   allowSpectators?: boolean;
+  houseRules?: UnoHouseRules;
+  unoCallWindow?: number;
+  // UNO match mode: keep dealing rounds until a player reaches this score
+  matchTargetScore?: number;
+  checkersVariant?: CheckersVariant;
+  // Switches the variant's flying kings on or off
+  checkersFlyingKings?: boolean;
+  // Checkers turns without a capture or promotion before the game is drawn
+  checkersDrawMoveLimit?: number;
+  // Caro board size and the Vietnamese rule that a line blocked at both ends doesn't win
+  caroBoardSize?: number;
+  caroBlockedEnds?: boolean;
 }
 
 export interface JoinGameOptions {
@@ -21,12 +38,29 @@ export interface GameMove {
   timestamp: number;
 }
 
+// Everything played in a finished game, in order, for replays
+export interface GameReplay {
+  game: Game;
+  // Serialized state the game started from, when it can't be rebuilt from the setup alone
+  initialState?: string;
+  // Options the rules engine was set up with; an UNO game's include its revealed seed
+  setup?: GameOptionsMap[GameType];
+  moves: ReplayMove[];
+}
+
+export interface ReplayMove extends GameMove {
+  // Position in the game's move log
+  sequence: number;
+}
+
 class GameService {
   private baseUrl = '/api/games';
 
   // Create a new game room
   async createGame(options: CreateGameOptions): Promise<Game> {
-    return apiService.post<Game>(`${this.baseUrl}/create`, options);
+    // The server is sent the clock itself, not the preset name
+    const timeControl = options.timeControl && clockService.resolveTimeControl(options.timeControl);
+    return apiService.post<Game>(`${this.baseUrl}/create`, { ...options, timeControl });
   }
 
   // Join an existing game
@@ -57,6 +91,11 @@ class GameService {
     });
   }
 
+  // Get the move log of a finished game
+  async getGameReplay(gameId: string): Promise<GameReplay> {
+    return apiService.get<GameReplay>(`${this.baseUrl}/${gameId}/replay`);
+  }
+
   // Leave a game
   async leaveGame(gameId: string): Promise<void> {
     return apiService.post(`${this.baseUrl}/${gameId}/leave`);
@@ -72,13 +111,36 @@ class GameService {
     return apiService.post<Game>(`${this.baseUrl}/${gameId}/rematch`);
   }
 
+  // Game record for boards not backed by the server, such as practice games and analysis
+  createLocalGame(
+    id: string,
+    type: GameType,
+    state: BaseGameState,
+    result: GameOverResult,
+    usernames: Record<string, string> = {}
+  ): Game {
+    return {
+      id,
+      type,
+      status: result.isOver ? GameStatus.COMPLETED : GameStatus.IN_PROGRESS,
+      players: state.players.map(userId => ({
+        userId,
+        username: usernames[userId] || userId,
+        isAI: false,
+        isReady: true
+      })),
+      currentTurn: state.currentPlayer,
+      winner: result.winner
+    };
+  }
+
   // Get available AI difficulties
-  getAIDifficulties() {
-    return ['Easy', 'Medium', 'Hard', 'Expert'];
+  getAIDifficulties(): AIDifficulty[] {
+    return AI_DIFFICULTIES;
   }
 
-  // Play against AI
-  async playAgainstAI(gameType: GameType, difficulty: string): Promise<Game> {
+  // Play against a server-hosted AI; offline practice games use the local bots instead
+  async playAgainstAI(gameType: GameType, difficulty: AIDifficulty): Promise<Game> {
     return apiService.post<Game>(`${this.baseUrl}/ai`, {
       gameType,
       difficulty
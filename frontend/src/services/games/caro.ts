@@ -0,0 +1,209 @@
+import { GameType } from '../../types';
+import { BaseGameState, GameInfo, GameOverResult, GameRules } from './types';
+import { forEachWindow, getRun, isOnGrid, LINE_DIRECTIONS, placeOnGrid } from './lines';
+
+// Caro (gomoku / tic-tac-toe) specific types
+export type CaroStone = 'x' | 'o';
+
+export interface CaroGameState extends BaseGameState {
+  board: (CaroStone | null)[][];
+  size: number;
+  // Stones in a row needed to win: 5 for Caro, 3 for tic-tac-toe
+  winLength: number;
+  // Vietnamese rule: a line closed by the opponent at both ends doesn't win
+  blockedEnds: boolean;
+  currentTurn: CaroStone;
+  winningLine?: [number, number][];
+  moveHistory: CaroMove[];
+}
+
+export interface CaroMove {
+  row: number;
+  col: number;
+}
+
+export interface CaroSetupOptions {
+  size?: number;
+  winLength?: number;
+  blockedEnds?: boolean;
+}
+
+export const DEFAULT_CARO_SIZE = 15;
+export const CARO_MIN_SIZE = 3;
+export const CARO_MAX_SIZE = 25;
+const CARO_WIN_LENGTH = 5;
+const CARO_WIN_SCORE = 1000000;
+
+class CaroRules implements GameRules<CaroGameState, CaroMove, CaroSetupOptions> {
+  readonly type = GameType.CARO;
+
+  readonly info: GameInfo = {
+    name: 'Caro',
+    description: 'Gomoku on a big grid, or tic-tac-toe on a small one',
+    icon: '❌',
+    color: 'bg-game-caro',
+    minPlayers: 2,
+    maxPlayers: 2
+  };
+
+  // X moves first; boards smaller than five need every cell of a row, as in tic-tac-toe
+  createInitialState(players: string[], options: CaroSetupOptions = {}): CaroGameState {
+    const size = options.size ?? DEFAULT_CARO_SIZE;
+    const winLength = options.winLength ?? Math.min(CARO_WIN_LENGTH, size);
+
+    if (!Number.isInteger(size) || size < CARO_MIN_SIZE || size > CARO_MAX_SIZE) {
+      throw new Error(`Invalid Caro board size: ${size}`);
+    }
+    if (!Number.isInteger(winLength) || winLength < CARO_MIN_SIZE || winLength > size) {
+      throw new Error(`Invalid Caro win length: ${winLength}`);
+    }
+
+    return {
+      board: Array.from({ length: size }, () => Array.from({ length: size }, () => null as CaroStone | null)),
+      size,
+      winLength,
+      blockedEnds: options.blockedEnds ?? false,
+      currentTurn: 'x',
+      currentPlayer: players[0] || '',
+      players,
+      moveHistory: []
+    };
+  }
+
+  getLegalMoves(state: CaroGameState): CaroMove[] {
+    if (state.winningLine) return [];
+
+    const moves: CaroMove[] = [];
+    state.board.forEach((cells, row) => {
+      cells.forEach((cell, col) => {
+        if (cell === null) moves.push({ row, col });
+      });
+    });
+
+    return moves;
+  }
+
+  getSideToMove(state: CaroGameState): string {
+    return state.currentTurn;
+  }
+
+  serialize(state: CaroGameState): string {
+    return JSON.stringify(state);
+  }
+
+  deserialize(data: string): CaroGameState {
+    return JSON.parse(data);
+  }
+
+  getStartState(state: CaroGameState): CaroGameState {
+    return this.createInitialState(state.players, {
+      size: state.size,
+      winLength: state.winLength,
+      blockedEnds: state.blockedEnds
+    });
+  }
+
+  getMoveHistory(state: CaroGameState): CaroMove[] {
+    return state.moveHistory;
+  }
+
+  // Columns are lettered and rows numbered from the top, e.g. 'h8' for the centre of a 15x15 board
+  formatMove(move: CaroMove): string {
+    return `${String.fromCharCode(97 + move.col)}${move.row + 1}`;
+  }
+
+  validateMove(state: CaroGameState, move: CaroMove): boolean {
+    if (state.winningLine) return false;
+    if (!Number.isInteger(move.row) || !Number.isInteger(move.col)) return false;
+
+    return isOnGrid(state.board, move.row, move.col) && state.board[move.row][move.col] === null;
+  }
+
+  applyMove(state: CaroGameState, move: CaroMove): CaroGameState {
+    const board = placeOnGrid(state.board, move.row, move.col, state.currentTurn);
+    const nextTurn = state.currentTurn === 'x' ? 'o' : 'x';
+
+    return {
+      ...state,
+      board,
+      currentTurn: nextTurn,
+      currentPlayer: state.players[nextTurn === 'x' ? 0 : 1] || '',
+      winningLine: this.findWinningLine(state, board, move),
+      moveHistory: [...state.moveHistory, { row: move.row, col: move.col }]
+    };
+  }
+
+  checkGameOver(state: CaroGameState): GameOverResult {
+    if (state.winningLine) {
+      const [row, col] = state.winningLine[0];
+      return { isOver: true, winner: state.board[row][col]! };
+    }
+
+    if (state.moveHistory.length === state.size * state.size) {
+      return { isOver: true, isDraw: true, reason: 'board-full' };
+    }
+
+    return { isOver: false };
+  }
+
+  // Every window that could still become a winning line scores by the stones already in it
+  evaluate(state: CaroGameState): number {
+    const result = this.checkGameOver(state);
+    if (result.isOver) {
+      if (result.isDraw) return 0;
+      return result.winner === state.currentTurn ? CARO_WIN_SCORE : -CARO_WIN_SCORE;
+    }
+
+    const own = state.currentTurn;
+    let score = 0;
+
+    forEachWindow(state.board, state.winLength, cells => {
+      const ownCount = cells.filter(cell => cell === own).length;
+      const otherCount = cells.filter(cell => cell !== null && cell !== own).length;
+
+      if (otherCount === 0 && ownCount > 0) score += Math.pow(4, ownCount);
+      if (ownCount === 0 && otherCount > 0) score -= Math.pow(4, otherCount);
+    });
+
+    return score;
+  }
+
+  // Only cells next to a stone are worth considering; the centre opens the game
+  getSearchMoves(state: CaroGameState): CaroMove[] {
+    if (state.moveHistory.length === 0) {
+      const centre = Math.floor(state.size / 2);
+      return [{ row: centre, col: centre }];
+    }
+
+    return this.getLegalMoves(state).filter(({ row, col }) =>
+      [-1, 0, 1].some(dRow => [-1, 0, 1].some(dCol =>
+        isOnGrid(state.board, row + dRow, col + dCol) && state.board[row + dRow][col + dCol] !== null
+      ))
+    );
+  }
+
+  private findWinningLine(state: CaroGameState, board: (CaroStone | null)[][], move: CaroMove): [number, number][] | undefined {
+    const stone = board[move.row][move.col];
+
+    for (const direction of LINE_DIRECTIONS) {
+      const run = getRun(board, move.row, move.col, direction);
+      if (run.length < state.winLength) continue;
+      if (!state.blockedEnds) return run;
+
+      // Board edges don't count as blocking, only opponent stones do
+      const [dRow, dCol] = direction;
+      const [firstRow, firstCol] = run[0];
+      const [lastRow, lastCol] = run[run.length - 1];
+      const isBlocked = (row: number, col: number) =>
+        isOnGrid(board, row, col) && board[row][col] !== null && board[row][col] !== stone;
+
+      if (!isBlocked(firstRow - dRow, firstCol - dCol) || !isBlocked(lastRow + dRow, lastCol + dCol)) {
+        return run;
+      }
+    }
+
+    return undefined;
+  }
+}
+
+export const caroRules = new CaroRules();
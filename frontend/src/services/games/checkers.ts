@@ -0,0 +1,581 @@
+import { GameType } from '../../types';
+import { BaseGameState, GameInfo, GameOverResult, GameRules } from './types';
+
+// Checkers specific types
+export interface CheckersPiece {
+  color: 'red' | 'black';
+  isKing: boolean;
+}
+
+export interface CheckersGameState extends BaseGameState {
+  board: (CheckersPiece | null)[][];
+  currentTurn: 'red' | 'black';
+  variant?: CheckersVariant;
+  // Overrides the variant's flying kings rule
+  flyingKings?: boolean;
+  mustCapture: boolean;
+  captureSequence: string[];
+  // Pieces jumped so far in the current sequence, removed when it ends
+  pendingCaptures?: [number, number][];
+  // Turns played since the last capture or promotion
+  quietMoves: number;
+  // Turns without a capture or promotion after which the game is drawn
+  drawMoveLimit?: number;
+  positionKeys: string[];
+  drawOffer?: CheckersPiece['color'];
+  drawReason?: CheckersDrawReason;
+  moveHistory: CheckersMove[];
+}
+
+export type CheckersDrawReason = 'threefold-repetition' | 'move-limit' | 'agreement';
+
+export interface CheckersDrawAction {
+  type: 'offer-draw' | 'accept-draw' | 'decline-draw';
+  color: CheckersPiece['color'];
+}
+
+export const DEFAULT_CHECKERS_DRAW_MOVE_LIMIT = 80;
+
+export type CheckersVariant = 'american' | 'international' | 'russian' | 'brazilian';
+
+export interface CheckersVariantRules {
+  boardSize: number;
+  menCaptureBackwards: boolean;
+  flyingKings: boolean;
+  // Must take the sequence capturing the most pieces
+  majorityCapture: boolean;
+  // 'end' stops a jump sequence on crowning, 'continue' crowns mid-capture and
+  // keeps jumping as a king, 'final' crowns only if the sequence ends on the far row
+  promotion: 'end' | 'continue' | 'final';
+}
+
+export const CHECKERS_VARIANTS: Record<CheckersVariant, CheckersVariantRules> = {
+  american: { boardSize: 8, menCaptureBackwards: false, flyingKings: false, majorityCapture: false, promotion: 'end' },
+  international: { boardSize: 10, menCaptureBackwards: true, flyingKings: true, majorityCapture: true, promotion: 'final' },
+  russian: { boardSize: 8, menCaptureBackwards: true, flyingKings: true, majorityCapture: false, promotion: 'continue' },
+  brazilian: { boardSize: 8, menCaptureBackwards: true, flyingKings: true, majorityCapture: true, promotion: 'final' }
+};
+
+export interface CheckersMove {
+  from: [number, number];
+  to: [number, number];
+  captured?: [number, number][];
+  becameKing?: boolean;
+}
+
+const CHECKERS_MAN_VALUE = 100;
+const CHECKERS_KING_VALUE = 175;
+const CHECKERS_WIN_SCORE = 1000000;
+
+export interface CheckersSetupOptions {
+  variant?: CheckersVariant;
+  // Overrides the variant's flying kings rule
+  flyingKings?: boolean;
+  // Turns without a capture or promotion before the game is drawn
+  drawMoveLimit?: number;
+}
+
+class CheckersRules implements GameRules<CheckersGameState, CheckersMove | CheckersDrawAction, CheckersSetupOptions> {
+  readonly type = GameType.CHECKERS;
+
+  readonly info: GameInfo = {
+    name: 'Checkers',
+    description: 'Jump and capture your way to victory',
+    icon: '⚫',
+    color: 'bg-game-card',
+    minPlayers: 2,
+    maxPlayers: 2
+  };
+
+  createInitialState(players: string[], options: CheckersSetupOptions = {}): CheckersGameState {
+    const { drawMoveLimit } = options;
+    if (drawMoveLimit !== undefined && (!Number.isInteger(drawMoveLimit) || drawMoveLimit < 1)) {
+      throw new Error(`Invalid checkers move limit: ${drawMoveLimit}`);
+    }
+
+    const state = this.createCheckersState(players, options.variant);
+    if (options.flyingKings !== undefined) state.flyingKings = options.flyingKings;
+    if (drawMoveLimit !== undefined) state.drawMoveLimit = drawMoveLimit;
+    return state;
+  }
+
+  getLegalMoves(state: CheckersGameState): CheckersMove[] {
+    return this.generateCheckersMoves(state);
+  }
+
+  getSideToMove(state: CheckersGameState): string {
+    return state.currentTurn;
+  }
+
+  serialize(state: CheckersGameState): string {
+    return JSON.stringify(state);
+  }
+
+  deserialize(data: string): CheckersGameState {
+    return JSON.parse(data);
+  }
+
+  getStartState(state: CheckersGameState): CheckersGameState {
+    return this.createInitialState(state.players, {
+      variant: state.variant,
+      flyingKings: state.flyingKings,
+      drawMoveLimit: state.drawMoveLimit
+    });
+  }
+
+  getMoveHistory(state: CheckersGameState): CheckersMove[] {
+    return state.moveHistory;
+  }
+
+  // Squares are named like chess ones, with ranks counted from red's side: 'c3-d4', 'c3xg7', 'b6-a7K'.
+  // A multi-jump only records where it started and ended
+  formatMove(move: CheckersMove | CheckersDrawAction): string {
+    if (this.isCheckersDrawAction(move)) return `${move.color} ${move.type.replace('-', 's ')}`;
+
+    const name = ([row, col]: [number, number]) => `${'abcdefghij'[col]}${row + 1}`;
+    return `${name(move.from)}${move.captured ? 'x' : '-'}${name(move.to)}${move.becameKing ? 'K' : ''}`;
+  }
+
+  // A jump sequence is recorded as one move; find the single jumps that replay it
+  expandHistoryMove(state: CheckersGameState, move: CheckersMove | CheckersDrawAction): (CheckersMove | CheckersDrawAction)[] {
+    if (this.isCheckersDrawAction(move) || !move.captured || move.captured.length < 2) return [move];
+
+    const recorded = move;
+    const isSquare = (a: [number, number], b: [number, number]) => a[0] === b[0] && a[1] === b[1];
+
+    const findSteps = (current: CheckersGameState, from: [number, number], taken: number): CheckersMove[] | undefined => {
+      for (const step of this.generateCheckersMoves(current)) {
+        if (!isSquare(step.from, from) || !step.captured) continue;
+        if (!recorded.captured!.some(square => isSquare(square, step.captured![0]))) continue;
+
+        const next = this.applyMove(current, step);
+        if (next.captureSequence.length === 0) {
+          if (taken + 1 === recorded.captured!.length && isSquare(step.to, recorded.to)) return [step];
+          continue;
+        }
+
+        const rest = findSteps(next, step.to, taken + 1);
+        if (rest) return [step, ...rest];
+      }
+
+      return undefined;
+    };
+
+    return findSteps(state, recorded.from, 0) || [move];
+  }
+
+  // Build the starting position for a variant; men fill the dark squares of the first rows
+  createCheckersState(players: string[], variant: CheckersVariant = 'american'): CheckersGameState {
+    const { boardSize } = CHECKERS_VARIANTS[variant];
+    const pieceRows = boardSize / 2 - 1;
+
+    const board: (CheckersPiece | null)[][] = [];
+    for (let row = 0; row < boardSize; row++) {
+      board.push([]);
+      for (let col = 0; col < boardSize; col++) {
+        const isDark = (row + col) % 2 === 1;
+        if (isDark && row < pieceRows) {
+          board[row].push({ color: 'red', isKing: false });
+        } else if (isDark && row >= boardSize - pieceRows) {
+          board[row].push({ color: 'black', isKing: false });
+        } else {
+          board[row].push(null);
+        }
+      }
+    }
+
+    // Black (dark) opens in American checkers, white (played by red) in the other variants
+    const currentTurn = variant === 'american' ? 'black' : 'red';
+
+    return {
+      board,
+      currentTurn,
+      currentPlayer: players[currentTurn === 'red' ? 0 : 1] || '',
+      players,
+      variant,
+      mustCapture: false,
+      captureSequence: [],
+      quietMoves: 0,
+      positionKeys: [this.getCheckersPositionKey(board, currentTurn)],
+      moveHistory: []
+    };
+  }
+
+  private getCheckersRules(state: CheckersGameState): CheckersVariantRules {
+    const rules = CHECKERS_VARIANTS[state.variant || 'american'];
+    return state.flyingKings === undefined ? rules : { ...rules, flyingKings: state.flyingKings };
+  }
+
+  validateMove(state: CheckersGameState, move: CheckersMove | CheckersDrawAction): boolean {
+    if (this.isCheckersDrawAction(move)) {
+      if (move.type === 'offer-draw') return state.drawOffer !== move.color;
+      return state.drawOffer !== undefined && state.drawOffer !== move.color;
+    }
+
+    return this.findCheckersMove(state, move) !== undefined;
+  }
+
+  private isCheckersDrawAction(move: CheckersMove | CheckersDrawAction): move is CheckersDrawAction {
+    return 'type' in move;
+  }
+
+  private findCheckersMove(state: CheckersGameState, move: CheckersMove): CheckersMove | undefined {
+    const [fromRow, fromCol] = move.from;
+    const [toRow, toCol] = move.to;
+
+    return this.generateCheckersMoves(state).find(m =>
+      m.from[0] === fromRow && m.from[1] === fromCol && m.to[0] === toRow && m.to[1] === toCol
+    );
+  }
+
+  // Legal single steps for the side to move: jumps are mandatory, a jump sequence has to be
+  // continued with the same piece and, where the variant demands it, take the most pieces
+  private generateCheckersMoves(state: CheckersGameState): CheckersMove[] {
+    const rules = this.getCheckersRules(state);
+    const pending = state.pendingCaptures || [];
+
+    let jumps: { move: CheckersMove; total: number }[] = [];
+    const simpleMoves: CheckersMove[] = [];
+
+    const collectJumps = (row: number, col: number) => {
+      const piece = state.board[row][col]!;
+      for (const jump of this.getCheckersJumps(state.board, row, col, piece, pending, rules)) {
+        jumps.push({ move: jump, total: 1 + this.getCaptureDepth(state.board, jump, piece, pending, rules) });
+      }
+    };
+
+    if (state.captureSequence.length > 0) {
+      const [row, col] = state.captureSequence[state.captureSequence.length - 1].split(',').map(Number);
+      collectJumps(row, col);
+    } else {
+      this.forEachCheckersPiece(state, state.currentTurn, (row, col) => {
+        collectJumps(row, col);
+        if (jumps.length === 0) {
+          simpleMoves.push(...this.getCheckersSimpleMoves(state, row, col, rules));
+        }
+      });
+    }
+
+    if (jumps.length === 0) return simpleMoves;
+
+    // A flying king that can land where it keeps capturing has to land there
+    const isSameJump = (a: CheckersMove, b: CheckersMove) =>
+      a.from[0] === b.from[0] && a.from[1] === b.from[1] &&
+      a.captured![0][0] === b.captured![0][0] && a.captured![0][1] === b.captured![0][1];
+    jumps = jumps.filter(j => j.total > 1 || !jumps.some(other => other.total > 1 && isSameJump(other.move, j.move)));
+
+    // Majority rule: only sequences capturing the most pieces are allowed
+    if (rules.majorityCapture) {
+      const most = Math.max(...jumps.map(j => j.total));
+      jumps = jumps.filter(j => j.total === most);
+    }
+
+    return jumps.map(j => j.move);
+  }
+
+  private getCheckersSimpleMoves(
+    state: CheckersGameState,
+    row: number,
+    col: number,
+    rules: CheckersVariantRules
+  ): CheckersMove[] {
+    const piece = state.board[row][col]!;
+    const moves: CheckersMove[] = [];
+
+    for (const [dr, dc] of this.getCheckersDirections(piece, false, rules)) {
+      let toRow = row + dr;
+      let toCol = col + dc;
+
+      // Flying kings slide any distance along an open diagonal
+      while (this.isOnCheckersBoard(state.board, toRow, toCol) && !state.board[toRow][toCol]) {
+        moves.push({ from: [row, col], to: [toRow, toCol] });
+        if (!piece.isKing || !rules.flyingKings) break;
+
+        toRow += dr;
+        toCol += dc;
+      }
+    }
+
+    return moves;
+  }
+
+  // Single jumps available to a piece; pieces captured earlier in the sequence stay on the
+  // board until it ends and cannot be jumped twice
+  private getCheckersJumps(
+    board: (CheckersPiece | null)[][],
+    row: number,
+    col: number,
+    piece: CheckersPiece,
+    captured: [number, number][],
+    rules: CheckersVariantRules
+  ): CheckersMove[] {
+    const moves: CheckersMove[] = [];
+    const flying = piece.isKing && rules.flyingKings;
+
+    for (const [dr, dc] of this.getCheckersDirections(piece, true, rules)) {
+      let r = row + dr;
+      let c = col + dc;
+
+      // A flying king may approach from a distance
+      while (flying && this.isOnCheckersBoard(board, r, c) && !board[r][c]) {
+        r += dr;
+        c += dc;
+      }
+
+      if (!this.isOnCheckersBoard(board, r, c)) continue;
+
+      const target = board[r][c];
+      if (!target || target.color === piece.color || captured.some(([cr, cc]) => cr === r && cc === c)) continue;
+
+      let toRow = r + dr;
+      let toCol = c + dc;
+      while (this.isOnCheckersBoard(board, toRow, toCol) && !board[toRow][toCol]) {
+        moves.push({ from: [row, col], to: [toRow, toCol], captured: [[r, c]] });
+        if (!flying) break;
+
+        toRow += dr;
+        toCol += dc;
+      }
+    }
+
+    return moves;
+  }
+
+  // Most further pieces that can be captured after making a jump
+  private getCaptureDepth(
+    board: (CheckersPiece | null)[][],
+    jump: CheckersMove,
+    piece: CheckersPiece,
+    captured: [number, number][],
+    rules: CheckersVariantRules
+  ): number {
+    const [fromRow, fromCol] = jump.from;
+    const [toRow, toCol] = jump.to;
+
+    const crowned = !piece.isKing && toRow === this.getCheckersKingRow(board, piece);
+    if (crowned && rules.promotion === 'end') return 0;
+
+    const movedPiece = crowned && rules.promotion === 'continue' ? { ...piece, isKing: true } : piece;
+    const nextBoard = this.updateCheckersBoard(board, [[fromRow, fromCol, null], [toRow, toCol, movedPiece]]);
+
+    const nextCaptured = [...captured, ...jump.captured!];
+    const depths = this.getCheckersJumps(nextBoard, toRow, toCol, movedPiece, nextCaptured, rules)
+      .map(next => 1 + this.getCaptureDepth(nextBoard, next, movedPiece, nextCaptured, rules));
+
+    return depths.length > 0 ? Math.max(...depths) : 0;
+  }
+
+  private getCheckersDirections(piece: CheckersPiece, capturing: boolean, rules: CheckersVariantRules): number[][] {
+    if (piece.isKing || (capturing && rules.menCaptureBackwards)) {
+      return [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+    }
+
+    return piece.color === 'red' ? [[1, -1], [1, 1]] : [[-1, -1], [-1, 1]];
+  }
+
+  private getCheckersKingRow(board: (CheckersPiece | null)[][], piece: CheckersPiece): number {
+    return piece.color === 'red' ? board.length - 1 : 0;
+  }
+
+  applyMove(state: CheckersGameState, move: CheckersMove | CheckersDrawAction): CheckersGameState {
+    if (this.isCheckersDrawAction(move)) {
+      return this.applyCheckersDrawAction(state, move);
+    }
+
+    const rules = this.getCheckersRules(state);
+    const step = this.findCheckersMove(state, move) || move;
+    const [fromRow, fromCol] = step.from;
+    const [toRow, toCol] = step.to;
+    const piece = state.board[fromRow][fromCol]!;
+
+    const reachedKingRow = !piece.isKing && toRow === this.getCheckersKingRow(state.board, piece);
+    const captured = [...(state.pendingCaptures || []), ...(step.captured || [])];
+
+    // Move piece; men reaching the far row are crowned, mid-capture only where the variant allows
+    const crownNow = reachedKingRow && (!step.captured || rules.promotion !== 'final');
+    const newState: CheckersGameState = {
+      ...state,
+      board: this.updateCheckersBoard(state.board, [
+        [fromRow, fromCol, null],
+        [toRow, toCol, crownNow ? { ...piece, isKing: true } : piece]
+      ])
+    };
+
+    // A jump sequence is recorded as a single move from its first square
+    const continuing = state.captureSequence.length > 0;
+    const previous = continuing ? state.moveHistory[state.moveHistory.length - 1] : undefined;
+    const recorded: CheckersMove = {
+      from: previous ? previous.from : step.from,
+      to: step.to,
+      captured: step.captured ? captured : undefined,
+      becameKing: crownNow || previous?.becameKing || undefined
+    };
+    newState.moveHistory = previous
+      ? [...state.moveHistory.slice(0, -1), recorded]
+      : [...state.moveHistory, recorded];
+
+    // Same player continues jumping, unless crowning ends the move
+    const endsOnPromotion = crownNow && rules.promotion === 'end';
+    if (step.captured && !endsOnPromotion) {
+      newState.captureSequence = [...state.captureSequence, `${toRow},${toCol}`];
+      newState.pendingCaptures = captured;
+
+      if (this.generateCheckersMoves(newState).length > 0) {
+        newState.mustCapture = true;
+        return newState;
+      }
+    }
+
+    // Remove the captured pieces once the sequence is over
+    const changes: [number, number, CheckersPiece | null][] = captured.map(([row, col]) => [row, col, null]);
+    if (reachedKingRow && !crownNow) {
+      changes.push([toRow, toCol, { ...piece, isKing: true }]);
+      recorded.becameKing = true;
+    }
+    newState.board = this.updateCheckersBoard(newState.board, changes);
+
+    // Switch turns
+    newState.currentTurn = state.currentTurn === 'red' ? 'black' : 'red';
+    newState.currentPlayer = state.players[newState.currentTurn === 'red' ? 0 : 1] || '';
+    newState.captureSequence = [];
+    newState.pendingCaptures = undefined;
+    newState.mustCapture = this.generateCheckersMoves(newState).some(m => m.captured);
+
+    // Moving instead of answering declines the opponent's draw offer
+    if (state.drawOffer !== state.currentTurn) {
+      newState.drawOffer = undefined;
+    }
+
+    // Track progress for the draw rules
+    newState.quietMoves = recorded.captured || recorded.becameKing ? 0 : state.quietMoves + 1;
+    newState.positionKeys = [...state.positionKeys, this.getCheckersPositionKey(newState.board, newState.currentTurn)];
+    newState.drawReason = this.getCheckersDrawReason(newState);
+    newState.isDraw = newState.drawReason !== undefined;
+
+    return newState;
+  }
+
+  private applyCheckersDrawAction(state: CheckersGameState, action: CheckersDrawAction): CheckersGameState {
+    switch (action.type) {
+      case 'offer-draw':
+        return { ...state, drawOffer: action.color };
+      case 'accept-draw':
+        return { ...state, drawOffer: undefined, isDraw: true, drawReason: 'agreement' };
+      case 'decline-draw':
+        return { ...state, drawOffer: undefined };
+    }
+  }
+
+  private getCheckersDrawReason(state: CheckersGameState): CheckersDrawReason | undefined {
+    if (state.drawReason === 'agreement') return 'agreement';
+    if (state.quietMoves >= (state.drawMoveLimit || DEFAULT_CHECKERS_DRAW_MOVE_LIMIT)) return 'move-limit';
+
+    const current = state.positionKeys[state.positionKeys.length - 1];
+    if (current && state.positionKeys.filter(key => key === current).length >= 3) {
+      return 'threefold-repetition';
+    }
+
+    return undefined;
+  }
+
+  private getCheckersPositionKey(board: (CheckersPiece | null)[][], turn: CheckersPiece['color']): string {
+    const squares = board.map(cells => cells.map(piece => {
+      if (!piece) return '.';
+      const letter = piece.color === 'red' ? 'r' : 'b';
+      return piece.isKing ? letter.toUpperCase() : letter;
+    }).join(''));
+
+    return `${turn}:${squares.join('/')}`;
+  }
+
+  // Whether a side would have any legal move if it were its turn
+  private canCheckersSideMove(state: CheckersGameState, color: CheckersPiece['color']): boolean {
+    const sideState: CheckersGameState = color === state.currentTurn
+      ? state
+      : { ...state, currentTurn: color, captureSequence: [], pendingCaptures: undefined };
+
+    return this.generateCheckersMoves(sideState).length > 0;
+  }
+
+  // Return a new board with the given squares replaced, sharing untouched rows
+  private updateCheckersBoard(
+    board: (CheckersPiece | null)[][],
+    changes: [number, number, CheckersPiece | null][]
+  ): (CheckersPiece | null)[][] {
+    if (changes.length === 0) return board;
+
+    const newBoard = [...board];
+    const copiedRows = new Set<number>();
+
+    changes.forEach(([row, col, piece]) => {
+      if (!copiedRows.has(row)) {
+        newBoard[row] = [...board[row]];
+        copiedRows.add(row);
+      }
+      newBoard[row][col] = piece;
+    });
+
+    return newBoard;
+  }
+
+  private forEachCheckersPiece(
+    state: CheckersGameState,
+    color: CheckersPiece['color'],
+    callback: (row: number, col: number) => void
+  ): void {
+    state.board.forEach((cells, row) => {
+      cells.forEach((piece, col) => {
+        if (piece && piece.color === color) callback(row, col);
+      });
+    });
+  }
+
+  private isOnCheckersBoard(board: (CheckersPiece | null)[][], row: number, col: number): boolean {
+    return row >= 0 && row < board.length && col >= 0 && col < board.length;
+  }
+
+  checkGameOver(state: CheckersGameState): GameOverResult {
+    // A jump sequence in progress always has a continuation
+    if (state.captureSequence.length > 0) return { isOver: false };
+
+    // The side to move loses when it has no pieces or no legal moves
+    if (!this.canCheckersSideMove(state, state.currentTurn)) {
+      return { isOver: true, winner: state.currentTurn === 'red' ? 'black' : 'red' };
+    }
+
+    const reason = state.drawReason || this.getCheckersDrawReason(state);
+    if (reason) {
+      return { isOver: true, isDraw: true, reason };
+    }
+
+    return { isOver: false };
+  }
+
+  // Material, with men worth a little more the closer they are to crowning
+  evaluate(state: CheckersGameState): number {
+    const result = this.checkGameOver(state);
+    if (result.isOver) {
+      if (result.isDraw) return 0;
+      return result.winner === state.currentTurn ? CHECKERS_WIN_SCORE : -CHECKERS_WIN_SCORE;
+    }
+
+    const size = state.board.length;
+    // Pieces already jumped in an unfinished sequence are as good as gone
+    const jumped = new Set((state.pendingCaptures || []).map(([row, col]) => `${row},${col}`));
+    let score = 0;
+
+    state.board.forEach((cells, row) => {
+      cells.forEach((piece, col) => {
+        if (!piece || jumped.has(`${row},${col}`)) return;
+
+        const advancement = piece.color === 'red' ? row : size - 1 - row;
+        const value = piece.isKing ? CHECKERS_KING_VALUE : CHECKERS_MAN_VALUE + 5 * advancement;
+        score += piece.color === state.currentTurn ? value : -value;
+      });
+    });
+
+    return score;
+  }
+}
+
+export const checkersRules = new CheckersRules();
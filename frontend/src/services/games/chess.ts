@@ -0,0 +1,904 @@
+import { Game, GameStatus, GameType } from '../../types';
+import { BaseGameState, GameInfo, GameOverResult, GameRules } from './types';
+
+// Chess specific types
+export type ChessPiece = 'pawn' | 'rook' | 'knight' | 'bishop' | 'queen' | 'king';
+export type ChessColor = 'white' | 'black';
+
+export interface ChessSquare {
+  piece?: ChessPiece;
+  color?: ChessColor;
+}
+
+export interface ChessGameState extends BaseGameState {
+  board: ChessSquare[][];
+  currentTurn: ChessColor;
+  enPassant?: string;
+  castling: {
+    whiteKingSide: boolean;
+    whiteQueenSide: boolean;
+    blackKingSide: boolean;
+    blackQueenSide: boolean;
+  };
+  inCheck: boolean;
+  checkmate: boolean;
+  stalemate: boolean;
+  halfmoveClock: number;
+  fullmoveNumber: number;
+  startFen?: string;
+  positionHashes: string[];
+  drawOffer?: ChessColor;
+  drawReason?: ChessDrawReason;
+  moveHistory: ChessMove[];
+}
+
+export type ChessDrawReason =
+  | 'stalemate'
+  | 'threefold-repetition'
+  | 'fifty-move-rule'
+  | 'insufficient-material'
+  | 'agreement';
+
+// Draw offers are sent through the same move channel as board moves
+export interface ChessDrawAction {
+  type: 'offer-draw' | 'accept-draw' | 'decline-draw';
+  color: ChessColor;
+}
+
+export interface ChessMove {
+  from: string;
+  to: string;
+  piece: ChessPiece;
+  captured?: ChessPiece;
+  promotion?: ChessPiece;
+  notation: string;
+}
+
+export interface ChessSetupOptions {
+  // Start from a custom position instead of the standard one
+  fen?: string;
+}
+
+// Chess movement offsets as [row, col] deltas
+const KNIGHT_OFFSETS = [[2, 1], [1, 2], [-1, 2], [-2, 1], [-2, -1], [-1, -2], [1, -2], [2, -1]];
+const KING_OFFSETS = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+const ROOK_DIRECTIONS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const BISHOP_DIRECTIONS = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+const PROMOTION_PIECES: ChessPiece[] = ['queen', 'rook', 'bishop', 'knight'];
+
+const PIECE_LETTERS: Record<ChessPiece, string> = {
+  pawn: 'P',
+  knight: 'N',
+  bishop: 'B',
+  rook: 'R',
+  queen: 'Q',
+  king: 'K'
+};
+
+const LETTER_PIECES: Record<string, ChessPiece> = {
+  P: 'pawn',
+  N: 'knight',
+  B: 'bishop',
+  R: 'rook',
+  Q: 'queen',
+  K: 'king'
+};
+
+// Zobrist key layout: 12 piece kinds x 64 squares, 4 castling rights, 8 en passant files, side to move
+const ZOBRIST_PIECES: ChessPiece[] = ['pawn', 'knight', 'bishop', 'rook', 'queen', 'king'];
+const ZOBRIST_CASTLING = 12 * 64;
+const ZOBRIST_EN_PASSANT = ZOBRIST_CASTLING + 4;
+const ZOBRIST_BLACK_TO_MOVE = ZOBRIST_EN_PASSANT + 8;
+
+// Keys are 64-bit values split into two 32-bit halves, generated from a fixed xorshift seed
+const ZOBRIST_KEYS: [number, number][] = (() => {
+  let seed = 0x9e3779b9;
+  const next = () => {
+    seed ^= seed << 13;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+    return seed >>> 0;
+  };
+
+  const keys: [number, number][] = [];
+  for (let i = 0; i <= ZOBRIST_BLACK_TO_MOVE; i++) {
+    keys.push([next(), next()]);
+  }
+  return keys;
+})();
+
+// Centipawn values for the evaluation; the king is never traded so it counts nothing
+const PIECE_VALUES: Record<ChessPiece, number> = {
+  pawn: 100,
+  knight: 320,
+  bishop: 330,
+  rook: 500,
+  queen: 900,
+  king: 0
+};
+const CHESS_WIN_SCORE = 1000000;
+
+export const CHESS_START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+class ChessRules implements GameRules<ChessGameState, ChessMove | ChessDrawAction, ChessSetupOptions> {
+  readonly type = GameType.CHESS;
+
+  readonly info: GameInfo = {
+    name: 'Chess',
+    description: 'Strategic board game of kings and queens',
+    icon: '♟️',
+    color: 'bg-game-chess',
+    minPlayers: 2,
+    maxPlayers: 2
+  };
+
+  createInitialState(players: string[], options: ChessSetupOptions = {}): ChessGameState {
+    return this.fromFEN(options.fen || CHESS_START_FEN, players);
+  }
+
+  getLegalMoves(state: ChessGameState): ChessMove[] {
+    return this.generateLegalChessMoves(state);
+  }
+
+  getSideToMove(state: ChessGameState): string {
+    return state.currentTurn;
+  }
+
+  serialize(state: ChessGameState): string {
+    return JSON.stringify(state);
+  }
+
+  deserialize(data: string): ChessGameState {
+    return JSON.parse(data);
+  }
+
+  getStartState(state: ChessGameState): ChessGameState {
+    return this.createInitialState(state.players, { fen: state.startFen });
+  }
+
+  getMoveHistory(state: ChessGameState): ChessMove[] {
+    return state.moveHistory;
+  }
+
+  formatMove(move: ChessMove | ChessDrawAction): string {
+    return this.isChessDrawAction(move) ? `${move.color} ${move.type.replace('-', 's ')}` : move.notation;
+  }
+
+  // Get all legal moves for the piece standing on a square
+  getLegalMovesFrom(state: ChessGameState, square: string): ChessMove[] {
+    return this.generateLegalChessMoves(state, square);
+  }
+
+  validateMove(state: ChessGameState, move: ChessMove | ChessDrawAction): boolean {
+    if (this.isChessDrawAction(move)) {
+      if (move.type === 'offer-draw') return state.drawOffer !== move.color;
+      return state.drawOffer !== undefined && state.drawOffer !== move.color;
+    }
+
+    return this.findLegalChessMove(state, move) !== undefined;
+  }
+
+  private isChessDrawAction(move: ChessMove | ChessDrawAction): move is ChessDrawAction {
+    return 'type' in move;
+  }
+
+  private findLegalChessMove(state: ChessGameState, move: ChessMove): ChessMove | undefined {
+    return this.generateLegalChessMoves(state, move.from).find(m =>
+      m.to === move.to && m.promotion === move.promotion
+    );
+  }
+
+  // Generate moves for the side to move that don't leave its own king in check
+  private generateLegalChessMoves(state: ChessGameState, square?: string): ChessMove[] {
+    const moves: ChessMove[] = [];
+
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        if (square && this.toSquare(row, col) !== square) continue;
+
+        const piece = state.board[row][col];
+        if (piece.piece && piece.color === state.currentTurn) {
+          this.generatePieceMoves(state, row, col, moves);
+        }
+      }
+    }
+
+    return moves.filter(move => !this.leavesKingInCheck(state, move));
+  }
+
+  private generatePieceMoves(state: ChessGameState, row: number, col: number, moves: ChessMove[]): void {
+    switch (state.board[row][col].piece) {
+      case 'pawn':
+        this.generatePawnMoves(state, row, col, moves);
+        break;
+      case 'knight':
+        this.generateStepMoves(state, row, col, KNIGHT_OFFSETS, moves);
+        break;
+      case 'bishop':
+        this.generateSlidingMoves(state, row, col, BISHOP_DIRECTIONS, moves);
+        break;
+      case 'rook':
+        this.generateSlidingMoves(state, row, col, ROOK_DIRECTIONS, moves);
+        break;
+      case 'queen':
+        this.generateSlidingMoves(state, row, col, [...ROOK_DIRECTIONS, ...BISHOP_DIRECTIONS], moves);
+        break;
+      case 'king':
+        this.generateStepMoves(state, row, col, KING_OFFSETS, moves);
+        this.generateCastlingMoves(state, row, col, moves);
+        break;
+    }
+  }
+
+  private generatePawnMoves(state: ChessGameState, row: number, col: number, moves: ChessMove[]): void {
+    const color = state.board[row][col].color;
+    const direction = color === 'white' ? 1 : -1;
+    const startRow = color === 'white' ? 1 : 6;
+    const nextRow = row + direction;
+
+    if (!this.isOnChessBoard(nextRow, col)) return;
+
+    // Forward moves
+    if (!state.board[nextRow][col].piece) {
+      this.addPawnMove(state, row, col, nextRow, col, moves);
+
+      const doubleRow = row + 2 * direction;
+      if (row === startRow && !state.board[doubleRow][col].piece) {
+        this.addChessMove(state, row, col, doubleRow, col, moves);
+      }
+    }
+
+    // Captures, including en passant onto the skipped square
+    for (const toCol of [col - 1, col + 1]) {
+      if (!this.isOnChessBoard(nextRow, toCol)) continue;
+
+      const target = state.board[nextRow][toCol];
+      if (target.piece && target.color !== color) {
+        this.addPawnMove(state, row, col, nextRow, toCol, moves);
+      } else if (state.enPassant === this.toSquare(nextRow, toCol)) {
+        this.addChessMove(state, row, col, nextRow, toCol, moves);
+        moves[moves.length - 1].captured = 'pawn';
+      }
+    }
+  }
+
+  // Pawns reaching the last rank must promote
+  private addPawnMove(state: ChessGameState, fromRow: number, fromCol: number, toRow: number, toCol: number, moves: ChessMove[]): void {
+    if (toRow !== 0 && toRow !== 7) {
+      this.addChessMove(state, fromRow, fromCol, toRow, toCol, moves);
+      return;
+    }
+
+    for (const promotion of PROMOTION_PIECES) {
+      this.addChessMove(state, fromRow, fromCol, toRow, toCol, moves, promotion);
+    }
+  }
+
+  private generateStepMoves(state: ChessGameState, row: number, col: number, offsets: number[][], moves: ChessMove[]): void {
+    const color = state.board[row][col].color;
+
+    for (const [dr, dc] of offsets) {
+      const toRow = row + dr;
+      const toCol = col + dc;
+      if (!this.isOnChessBoard(toRow, toCol)) continue;
+
+      const target = state.board[toRow][toCol];
+      if (!target.piece || target.color !== color) {
+        this.addChessMove(state, row, col, toRow, toCol, moves);
+      }
+    }
+  }
+
+  private generateSlidingMoves(state: ChessGameState, row: number, col: number, directions: number[][], moves: ChessMove[]): void {
+    const color = state.board[row][col].color;
+
+    for (const [dr, dc] of directions) {
+      let toRow = row + dr;
+      let toCol = col + dc;
+
+      while (this.isOnChessBoard(toRow, toCol)) {
+        const target = state.board[toRow][toCol];
+        if (target.piece) {
+          if (target.color !== color) {
+            this.addChessMove(state, row, col, toRow, toCol, moves);
+          }
+          break;
+        }
+
+        this.addChessMove(state, row, col, toRow, toCol, moves);
+        toRow += dr;
+        toCol += dc;
+      }
+    }
+  }
+
+  private generateCastlingMoves(state: ChessGameState, row: number, col: number, moves: ChessMove[]): void {
+    for (const toCol of [6, 2]) {
+      if (this.validateCastling(state, row, col, row, toCol)) {
+        this.addChessMove(state, row, col, row, toCol, moves);
+      }
+    }
+  }
+
+  private addChessMove(
+    state: ChessGameState,
+    fromRow: number,
+    fromCol: number,
+    toRow: number,
+    toCol: number,
+    moves: ChessMove[],
+    promotion?: ChessPiece
+  ): void {
+    const from = this.toSquare(fromRow, fromCol);
+    const to = this.toSquare(toRow, toCol);
+
+    moves.push({
+      from,
+      to,
+      piece: state.board[fromRow][fromCol].piece!,
+      captured: state.board[toRow][toCol].piece,
+      promotion,
+      notation: `${from}${to}${promotion ? PIECE_LETTERS[promotion].toLowerCase() : ''}`
+    });
+  }
+
+  private validateCastling(state: ChessGameState, fromRow: number, fromCol: number, toRow: number, toCol: number): boolean {
+    const color = state.board[fromRow][fromCol].color!;
+    const opponent = color === 'white' ? 'black' : 'white';
+    const row = color === 'white' ? 0 : 7;
+
+    if (fromRow !== row || toRow !== row || fromCol !== 4) return false;
+
+    let rookCol: number;
+    let emptyCols: number[];
+    let kingPath: number[];
+
+    if (toCol === 6) {
+      // King side castling
+      if (color === 'white' && !state.castling.whiteKingSide) return false;
+      if (color === 'black' && !state.castling.blackKingSide) return false;
+      rookCol = 7;
+      emptyCols = [5, 6];
+      kingPath = [4, 5, 6];
+    } else if (toCol === 2) {
+      // Queen side castling
+      if (color === 'white' && !state.castling.whiteQueenSide) return false;
+      if (color === 'black' && !state.castling.blackQueenSide) return false;
+      rookCol = 0;
+      emptyCols = [1, 2, 3];
+      kingPath = [4, 3, 2];
+    } else {
+      return false;
+    }
+
+    const rook = state.board[row][rookCol];
+    if (rook.piece !== 'rook' || rook.color !== color) return false;
+
+    // Squares between king and rook must be empty
+    if (emptyCols.some(col => state.board[row][col].piece)) return false;
+
+    // King may not castle out of, through or into check
+    return !kingPath.some(col => this.isSquareAttacked(state.board, row, col, opponent));
+  }
+
+  private leavesKingInCheck(state: ChessGameState, move: ChessMove): boolean {
+    const board = this.makeChessBoardMove(state.board, move);
+    return this.isKingInCheck(board, state.currentTurn);
+  }
+
+  private isKingInCheck(board: ChessSquare[][], color: ChessColor): boolean {
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const square = board[row][col];
+        if (square.piece === 'king' && square.color === color) {
+          return this.isSquareAttacked(board, row, col, color === 'white' ? 'black' : 'white');
+        }
+      }
+    }
+    return false;
+  }
+
+  private isSquareAttacked(board: ChessSquare[][], row: number, col: number, byColor: ChessColor): boolean {
+    const isPiece = (r: number, c: number, pieces: ChessPiece[]) =>
+      this.isOnChessBoard(r, c) && board[r][c].color === byColor && pieces.includes(board[r][c].piece!);
+
+    // Pawns attack diagonally towards the opponent
+    const pawnRow = byColor === 'white' ? row - 1 : row + 1;
+    if (isPiece(pawnRow, col - 1, ['pawn']) || isPiece(pawnRow, col + 1, ['pawn'])) return true;
+
+    if (KNIGHT_OFFSETS.some(([dr, dc]) => isPiece(row + dr, col + dc, ['knight']))) return true;
+    if (KING_OFFSETS.some(([dr, dc]) => isPiece(row + dr, col + dc, ['king']))) return true;
+
+    // Sliding pieces
+    const rays: [number[][], ChessPiece[]][] = [
+      [ROOK_DIRECTIONS, ['rook', 'queen']],
+      [BISHOP_DIRECTIONS, ['bishop', 'queen']]
+    ];
+
+    for (const [directions, pieces] of rays) {
+      for (const [dr, dc] of directions) {
+        let r = row + dr;
+        let c = col + dc;
+
+        while (this.isOnChessBoard(r, c)) {
+          if (board[r][c].piece) {
+            if (isPiece(r, c, pieces)) return true;
+            break;
+          }
+          r += dr;
+          c += dc;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  // Return a new board with the move played, sharing untouched rows
+  private makeChessBoardMove(board: ChessSquare[][], move: ChessMove): ChessSquare[][] {
+    const [fromRow, fromCol] = this.parseSquare(move.from);
+    const [toRow, toCol] = this.parseSquare(move.to);
+    const piece = board[fromRow][fromCol];
+
+    const newBoard = [...board];
+    newBoard[fromRow] = [...newBoard[fromRow]];
+    newBoard[toRow] = fromRow === toRow ? newBoard[fromRow] : [...newBoard[toRow]];
+
+    // En passant removes the pawn beside the moving pawn
+    if (piece.piece === 'pawn' && fromCol !== toCol && !board[toRow][toCol].piece) {
+      newBoard[fromRow][toCol] = {};
+    }
+
+    // Castling relocates the rook next to the king
+    if (piece.piece === 'king' && Math.abs(toCol - fromCol) === 2) {
+      const rookFromCol = toCol === 6 ? 7 : 0;
+      const rookToCol = toCol === 6 ? 5 : 3;
+      newBoard[fromRow][rookToCol] = newBoard[fromRow][rookFromCol];
+      newBoard[fromRow][rookFromCol] = {};
+    }
+
+    newBoard[fromRow][fromCol] = {};
+    newBoard[toRow][toCol] = move.promotion ? { piece: move.promotion, color: piece.color } : piece;
+
+    return newBoard;
+  }
+
+  applyMove(state: ChessGameState, move: ChessMove | ChessDrawAction): ChessGameState {
+    if (this.isChessDrawAction(move)) {
+      return this.applyChessDrawAction(state, move);
+    }
+
+    const newState = { ...state };
+    const legalMove = this.findLegalChessMove(state, move) || move;
+
+    // Move piece
+    newState.board = this.makeChessBoardMove(state.board, legalMove);
+
+    // Update castling rights
+    newState.castling = this.updateCastlingRights(state.castling, legalMove);
+
+    // A double pawn push exposes the skipped square to en passant for one turn
+    const [fromRow, fromCol] = this.parseSquare(legalMove.from);
+    const [toRow] = this.parseSquare(legalMove.to);
+    newState.enPassant = legalMove.piece === 'pawn' && Math.abs(toRow - fromRow) === 2
+      ? this.toSquare((fromRow + toRow) / 2, fromCol)
+      : undefined;
+
+    // Move counters
+    newState.halfmoveClock = legalMove.piece === 'pawn' || legalMove.captured ? 0 : state.halfmoveClock + 1;
+    if (state.currentTurn === 'black') {
+      newState.fullmoveNumber = state.fullmoveNumber + 1;
+    }
+
+    // Switch turns
+    newState.currentTurn = newState.currentTurn === 'white' ? 'black' : 'white';
+    newState.currentPlayer = state.players[newState.currentTurn === 'white' ? 0 : 1] || '';
+
+    // Moving instead of answering declines the opponent's draw offer
+    if (state.drawOffer !== state.currentTurn) {
+      newState.drawOffer = undefined;
+    }
+
+    // Update check, checkmate and stalemate for the side now to move
+    this.updateChessStatus(newState);
+    newState.positionHashes = [...state.positionHashes, this.hashChessPosition(newState)];
+    newState.drawReason = this.getChessDrawReason(newState);
+    newState.isDraw = newState.drawReason !== undefined;
+
+    // Add to move history with its SAN
+    const suffix = newState.checkmate ? '#' : newState.inCheck ? '+' : '';
+    newState.moveHistory = [...state.moveHistory, { ...legalMove, notation: this.toSAN(state, legalMove) + suffix }];
+
+    return newState;
+  }
+
+  private applyChessDrawAction(state: ChessGameState, action: ChessDrawAction): ChessGameState {
+    switch (action.type) {
+      case 'offer-draw':
+        return { ...state, drawOffer: action.color };
+      case 'accept-draw':
+        return { ...state, drawOffer: undefined, isDraw: true, drawReason: 'agreement' };
+      case 'decline-draw':
+        return { ...state, drawOffer: undefined };
+    }
+  }
+
+  private updateChessStatus(state: ChessGameState): void {
+    const hasLegalMoves = this.generateLegalChessMoves(state).length > 0;
+    state.inCheck = this.isKingInCheck(state.board, state.currentTurn);
+    state.checkmate = state.inCheck && !hasLegalMoves;
+    state.stalemate = !state.inCheck && !hasLegalMoves;
+  }
+
+  // Moving the king or a rook, or capturing a rook on its home square, revokes castling
+  private updateCastlingRights(castling: ChessGameState['castling'], move: ChessMove): ChessGameState['castling'] {
+    const rights = { ...castling };
+    const touched = [move.from, move.to];
+
+    if (move.from === 'e1') {
+      rights.whiteKingSide = false;
+      rights.whiteQueenSide = false;
+    }
+    if (move.from === 'e8') {
+      rights.blackKingSide = false;
+      rights.blackQueenSide = false;
+    }
+    if (touched.includes('h1')) rights.whiteKingSide = false;
+    if (touched.includes('a1')) rights.whiteQueenSide = false;
+    if (touched.includes('h8')) rights.blackKingSide = false;
+    if (touched.includes('a8')) rights.blackQueenSide = false;
+
+    return rights;
+  }
+
+  checkGameOver(state: ChessGameState): GameOverResult {
+    if (state.checkmate) {
+      return { isOver: true, winner: state.currentTurn === 'white' ? 'black' : 'white' };
+    }
+
+    const reason = state.drawReason || this.getChessDrawReason(state);
+    if (reason) {
+      return { isOver: true, isDraw: true, reason };
+    }
+
+    return { isOver: false };
+  }
+
+  // Material plus small bonuses for central pieces and advanced pawns
+  evaluate(state: ChessGameState): number {
+    const result = this.checkGameOver(state);
+    if (result.isOver) {
+      if (result.isDraw) return 0;
+      return result.winner === state.currentTurn ? CHESS_WIN_SCORE : -CHESS_WIN_SCORE;
+    }
+
+    let score = 0;
+    state.board.forEach((cells, row) => {
+      cells.forEach((cell, col) => {
+        if (!cell.piece) return;
+
+        let value = PIECE_VALUES[cell.piece];
+        if (cell.piece === 'pawn') {
+          value += 5 * (cell.color === 'white' ? row - 1 : 6 - row);
+        } else if (cell.piece !== 'king') {
+          value += 10 - 3 * Math.max(Math.abs(row - 3.5), Math.abs(col - 3.5));
+        }
+
+        score += cell.color === state.currentTurn ? value : -value;
+      });
+    });
+
+    return score;
+  }
+
+  // Promotions and captures of valuable pieces by cheap ones are searched first
+  getSearchMoves(state: ChessGameState): ChessMove[] {
+    const priority = (move: ChessMove) =>
+      (move.promotion ? PIECE_VALUES[move.promotion] : 0) +
+      (move.captured ? 10 * PIECE_VALUES[move.captured] - PIECE_VALUES[move.piece] : 0);
+
+    return this.getLegalMoves(state).sort((a, b) => priority(b) - priority(a));
+  }
+
+  private getChessDrawReason(state: ChessGameState): ChessDrawReason | undefined {
+    if (state.drawReason === 'agreement') return 'agreement';
+    if (state.stalemate) return 'stalemate';
+    if (this.hasInsufficientMaterial(state.board)) return 'insufficient-material';
+    if (state.halfmoveClock >= 100) return 'fifty-move-rule';
+
+    const current = state.positionHashes[state.positionHashes.length - 1];
+    if (current && state.positionHashes.filter(hash => hash === current).length >= 3) {
+      return 'threefold-repetition';
+    }
+
+    return undefined;
+  }
+
+  // Neither side can mate: bare kings, a single minor piece, or bishops all on one square colour
+  private hasInsufficientMaterial(board: ChessSquare[][]): boolean {
+    const minors: { piece: ChessPiece; squareColor: number }[] = [];
+
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const { piece } = board[row][col];
+        if (!piece || piece === 'king') continue;
+        if (piece !== 'knight' && piece !== 'bishop') return false;
+        minors.push({ piece, squareColor: (row + col) % 2 });
+      }
+    }
+
+    if (minors.length <= 1) return true;
+
+    return minors.every(m => m.piece === 'bishop' && m.squareColor === minors[0].squareColor);
+  }
+
+  // Zobrist hash of placement, side to move, castling rights and capturable en passant square
+  private hashChessPosition(state: ChessGameState): string {
+    let high = 0;
+    let low = 0;
+    const mix = (index: number) => {
+      high ^= ZOBRIST_KEYS[index][0];
+      low ^= ZOBRIST_KEYS[index][1];
+    };
+
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const { piece, color } = state.board[row][col];
+        if (!piece) continue;
+
+        const kind = ZOBRIST_PIECES.indexOf(piece) + (color === 'white' ? 0 : 6);
+        mix(kind * 64 + row * 8 + col);
+      }
+    }
+
+    const { castling } = state;
+    [castling.whiteKingSide, castling.whiteQueenSide, castling.blackKingSide, castling.blackQueenSide]
+      .forEach((right, i) => right && mix(ZOBRIST_CASTLING + i));
+
+    if (state.enPassant && this.isEnPassantCapturable(state)) {
+      mix(ZOBRIST_EN_PASSANT + this.parseSquare(state.enPassant)[1]);
+    }
+
+    if (state.currentTurn === 'black') mix(ZOBRIST_BLACK_TO_MOVE);
+
+    const hex = (n: number) => (n >>> 0).toString(16).padStart(8, '0');
+    return hex(high) + hex(low);
+  }
+
+  private isEnPassantCapturable(state: ChessGameState): boolean {
+    const [row, col] = this.parseSquare(state.enPassant!);
+    const pawnRow = state.currentTurn === 'white' ? row - 1 : row + 1;
+
+    return [col - 1, col + 1].some(c =>
+      this.isOnChessBoard(pawnRow, c) &&
+      state.board[pawnRow][c].piece === 'pawn' &&
+      state.board[pawnRow][c].color === state.currentTurn
+    );
+  }
+
+  // Chess notation
+  // Serialize the position as a FEN string
+  toFEN(state: ChessGameState): string {
+    const ranks: string[] = [];
+
+    for (let row = 7; row >= 0; row--) {
+      let rank = '';
+      let empty = 0;
+
+      for (let col = 0; col < 8; col++) {
+        const square = state.board[row][col];
+        if (!square.piece) {
+          empty++;
+          continue;
+        }
+
+        if (empty) rank += empty;
+        empty = 0;
+
+        const letter = PIECE_LETTERS[square.piece];
+        rank += square.color === 'white' ? letter : letter.toLowerCase();
+      }
+
+      if (empty) rank += empty;
+      ranks.push(rank);
+    }
+
+    const { castling } = state;
+    const castlingField = [
+      castling.whiteKingSide ? 'K' : '',
+      castling.whiteQueenSide ? 'Q' : '',
+      castling.blackKingSide ? 'k' : '',
+      castling.blackQueenSide ? 'q' : ''
+    ].join('') || '-';
+
+    return [
+      ranks.join('/'),
+      state.currentTurn === 'white' ? 'w' : 'b',
+      castlingField,
+      state.enPassant || '-',
+      state.halfmoveClock,
+      state.fullmoveNumber
+    ].join(' ');
+  }
+
+  // Build a game state from a FEN string; players are listed white first
+  fromFEN(fen: string, players: string[] = []): ChessGameState {
+    const [placement, turn, castlingField = '-', enPassant = '-', halfmove = '0', fullmove = '1'] = fen.trim().split(/\s+/);
+    const ranks = placement ? placement.split('/') : [];
+
+    if (ranks.length !== 8 || (turn !== 'w' && turn !== 'b')) {
+      throw new Error(`Invalid FEN: ${fen}`);
+    }
+
+    const board: ChessSquare[][] = [];
+    for (let row = 0; row < 8; row++) {
+      const squares: ChessSquare[] = [];
+
+      for (const char of ranks[7 - row].split('')) {
+        if (/[1-8]/.test(char)) {
+          for (let i = 0; i < parseInt(char); i++) squares.push({});
+          continue;
+        }
+
+        const piece = LETTER_PIECES[char.toUpperCase()];
+        if (!piece) throw new Error(`Invalid FEN: ${fen}`);
+        squares.push({ piece, color: char === char.toUpperCase() ? 'white' : 'black' });
+      }
+
+      if (squares.length !== 8) throw new Error(`Invalid FEN: ${fen}`);
+      board.push(squares);
+    }
+
+    const currentTurn: ChessColor = turn === 'w' ? 'white' : 'black';
+    const state: ChessGameState = {
+      board,
+      currentTurn,
+      currentPlayer: players[currentTurn === 'white' ? 0 : 1] || '',
+      players,
+      enPassant: enPassant === '-' ? undefined : enPassant,
+      castling: {
+        whiteKingSide: castlingField.includes('K'),
+        whiteQueenSide: castlingField.includes('Q'),
+        blackKingSide: castlingField.includes('k'),
+        blackQueenSide: castlingField.includes('q')
+      },
+      inCheck: false,
+      checkmate: false,
+      stalemate: false,
+      halfmoveClock: parseInt(halfmove) || 0,
+      fullmoveNumber: parseInt(fullmove) || 1,
+      startFen: fen === CHESS_START_FEN ? undefined : fen,
+      positionHashes: [],
+      moveHistory: []
+    };
+
+    this.updateChessStatus(state);
+    state.positionHashes = [this.hashChessPosition(state)];
+    return state;
+  }
+
+  // Export the game as PGN, replaying moveHistory to produce SAN
+  toPGN(state: ChessGameState, game?: Game): string {
+    const white = game?.players.find(p => p.color === 'white') || game?.players[0];
+    const black = game?.players.find(p => p.color === 'black') || game?.players[1];
+    const result = this.getPGNResult(state, game, white?.userId, black?.userId);
+
+    const headers: [string, string][] = [
+      ['Event', 'Online Game'],
+      ['Site', 'GameHub'],
+      ['Date', this.formatPGNDate(game?.startedAt)],
+      ['Round', '-'],
+      ['White', white?.username || '?'],
+      ['Black', black?.username || '?'],
+      ['Result', result]
+    ];
+
+    if (state.startFen) {
+      headers.push(['SetUp', '1'], ['FEN', state.startFen]);
+    }
+    if (game?.endedAt) {
+      headers.push(['EndDate', this.formatPGNDate(game.endedAt)]);
+    }
+
+    // Replay from the starting position so every move gets proper SAN
+    let replay = this.fromFEN(state.startFen || CHESS_START_FEN);
+    const tokens: string[] = [];
+
+    for (const move of state.moveHistory) {
+      if (replay.currentTurn === 'white') {
+        tokens.push(`${replay.fullmoveNumber}.`);
+      } else if (tokens.length === 0) {
+        tokens.push(`${replay.fullmoveNumber}...`);
+      }
+
+      replay = this.applyMove(replay, move);
+      tokens.push(replay.moveHistory[replay.moveHistory.length - 1].notation);
+    }
+    tokens.push(result);
+
+    // Wrap movetext at 80 columns
+    const lines: string[] = [];
+    let line = '';
+    for (const token of tokens) {
+      if (line && line.length + token.length + 1 > 80) {
+        lines.push(line);
+        line = token;
+      } else {
+        line = line ? `${line} ${token}` : token;
+      }
+    }
+    lines.push(line);
+
+    const headerText = headers.map(([key, value]) => `[${key} "${value.replace(/["\\]/g, '\\$&')}"]`).join('\n');
+    return `${headerText}\n\n${lines.join('\n')}\n`;
+  }
+
+  // Standard Algebraic Notation without the check suffix
+  private toSAN(state: ChessGameState, move: ChessMove): string {
+    const [fromRow, fromCol] = this.parseSquare(move.from);
+    const [, toCol] = this.parseSquare(move.to);
+
+    if (move.piece === 'king' && Math.abs(toCol - fromCol) === 2) {
+      return toCol === 6 ? 'O-O' : 'O-O-O';
+    }
+
+    const capture = move.captured ? 'x' : '';
+    const promotion = move.promotion ? `=${PIECE_LETTERS[move.promotion]}` : '';
+
+    if (move.piece === 'pawn') {
+      return `${capture ? move.from[0] : ''}${capture}${move.to}${promotion}`;
+    }
+
+    // Disambiguate between identical pieces that can reach the same square
+    const rivals = this.generateLegalChessMoves(state).filter(m =>
+      m.piece === move.piece && m.to === move.to && m.from !== move.from
+    );
+    let disambiguation = '';
+    if (rivals.length > 0) {
+      const sameFile = rivals.some(m => this.parseSquare(m.from)[1] === fromCol);
+      const sameRank = rivals.some(m => this.parseSquare(m.from)[0] === fromRow);
+
+      if (!sameFile) disambiguation = move.from[0];
+      else if (!sameRank) disambiguation = move.from[1];
+      else disambiguation = move.from;
+    }
+
+    return `${PIECE_LETTERS[move.piece]}${disambiguation}${capture}${move.to}`;
+  }
+
+  private getPGNResult(state: ChessGameState, game: Game | undefined, whiteId?: string, blackId?: string): string {
+    if (state.checkmate) {
+      return state.currentTurn === 'white' ? '0-1' : '1-0';
+    }
+    if (state.stalemate || state.isDraw) {
+      return '1/2-1/2';
+    }
+    if (game?.winner && game.winner === whiteId) return '1-0';
+    if (game?.winner && game.winner === blackId) return '0-1';
+    if (game?.status === GameStatus.COMPLETED) return '1/2-1/2';
+
+    return '*';
+  }
+
+  private formatPGNDate(date?: Date): string {
+    if (!date) return '????.??.??';
+
+    const d = new Date(date);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}.${pad(d.getMonth() + 1)}.${pad(d.getDate())}`;
+  }
+
+  private parseSquare(square: string): [number, number] {
+    return [parseInt(square[1]) - 1, square.charCodeAt(0) - 'a'.charCodeAt(0)];
+  }
+
+  private toSquare(row: number, col: number): string {
+    return `${String.fromCharCode('a'.charCodeAt(0) + col)}${row + 1}`;
+  }
+
+  private isOnChessBoard(row: number, col: number): boolean {
+    return row >= 0 && row < 8 && col >= 0 && col < 8;
+  }
+}
+
+export const chessRules = new ChessRules();
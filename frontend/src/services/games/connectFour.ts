@@ -0,0 +1,173 @@
+import { GameType } from '../../types';
+import { BaseGameState, GameInfo, GameOverResult, GameRules } from './types';
+import { forEachWindow, getRun, LINE_DIRECTIONS, placeOnGrid } from './lines';
+
+// Connect Four specific types
+export type ConnectFourDisc = 'red' | 'yellow';
+
+export interface ConnectFourGameState extends BaseGameState {
+  // Rows from top to bottom; a dropped disc settles in the lowest empty row of its column
+  board: (ConnectFourDisc | null)[][];
+  currentTurn: ConnectFourDisc;
+  winningLine?: [number, number][];
+  moveHistory: ConnectFourMove[];
+}
+
+export interface ConnectFourMove {
+  column: number;
+  // Row the disc landed in, filled in when the move is recorded
+  row?: number;
+}
+
+export type ConnectFourSetupOptions = Record<string, never>;
+
+export const CONNECT_FOUR_ROWS = 6;
+export const CONNECT_FOUR_COLUMNS = 7;
+const CONNECT_FOUR_LENGTH = 4;
+
+// Centre columns take part in the most lines, so they are searched first
+const CONNECT_FOUR_SEARCH_ORDER = [3, 2, 4, 1, 5, 0, 6];
+const CONNECT_FOUR_WIN_SCORE = 1000000;
+
+class ConnectFourRules implements GameRules<ConnectFourGameState, ConnectFourMove, ConnectFourSetupOptions> {
+  readonly type = GameType.CONNECT_FOUR;
+
+  readonly info: GameInfo = {
+    name: 'Connect Four',
+    description: 'Drop discs and line up four in a row',
+    icon: '🔴',
+    color: 'bg-game-connect-four',
+    minPlayers: 2,
+    maxPlayers: 2
+  };
+
+  // Red drops first
+  createInitialState(players: string[]): ConnectFourGameState {
+    return {
+      board: Array.from({ length: CONNECT_FOUR_ROWS }, () =>
+        Array.from({ length: CONNECT_FOUR_COLUMNS }, () => null as ConnectFourDisc | null)
+      ),
+      currentTurn: 'red',
+      currentPlayer: players[0] || '',
+      players,
+      moveHistory: []
+    };
+  }
+
+  getLegalMoves(state: ConnectFourGameState): ConnectFourMove[] {
+    return state.board[0]
+      .map((_, column) => ({ column }))
+      .filter(move => this.validateMove(state, move));
+  }
+
+  getSideToMove(state: ConnectFourGameState): string {
+    return state.currentTurn;
+  }
+
+  serialize(state: ConnectFourGameState): string {
+    return JSON.stringify(state);
+  }
+
+  deserialize(data: string): ConnectFourGameState {
+    return JSON.parse(data);
+  }
+
+  getStartState(state: ConnectFourGameState): ConnectFourGameState {
+    return this.createInitialState(state.players);
+  }
+
+  getMoveHistory(state: ConnectFourGameState): ConnectFourMove[] {
+    return state.moveHistory;
+  }
+
+  formatMove(move: ConnectFourMove): string {
+    return `Column ${move.column + 1}`;
+  }
+
+  validateMove(state: ConnectFourGameState, move: ConnectFourMove): boolean {
+    if (state.winningLine) return false;
+    if (!Number.isInteger(move.column) || move.column < 0 || move.column >= state.board[0].length) return false;
+
+    // A column is full once its top cell is taken
+    return state.board[0][move.column] === null;
+  }
+
+  applyMove(state: ConnectFourGameState, move: ConnectFourMove): ConnectFourGameState {
+    const row = this.getDropRow(state.board, move.column);
+    const board = placeOnGrid(state.board, row, move.column, state.currentTurn);
+    const nextTurn = state.currentTurn === 'red' ? 'yellow' : 'red';
+
+    return {
+      ...state,
+      board,
+      currentTurn: nextTurn,
+      currentPlayer: state.players[nextTurn === 'red' ? 0 : 1] || '',
+      winningLine: this.findWinningLine(board, row, move.column),
+      moveHistory: [...state.moveHistory, { column: move.column, row }]
+    };
+  }
+
+  checkGameOver(state: ConnectFourGameState): GameOverResult {
+    if (state.winningLine) {
+      const [row, col] = state.winningLine[0];
+      return { isOver: true, winner: state.board[row][col]! };
+    }
+
+    if (state.board[0].every(cell => cell !== null)) {
+      return { isOver: true, isDraw: true, reason: 'board-full' };
+    }
+
+    return { isOver: false };
+  }
+
+  // Open lines of two and three, plus discs in the centre column
+  evaluate(state: ConnectFourGameState): number {
+    const result = this.checkGameOver(state);
+    if (result.isOver) {
+      if (result.isDraw) return 0;
+      return result.winner === state.currentTurn ? CONNECT_FOUR_WIN_SCORE : -CONNECT_FOUR_WIN_SCORE;
+    }
+
+    const own = state.currentTurn;
+    let score = 0;
+
+    forEachWindow(state.board, CONNECT_FOUR_LENGTH, cells => {
+      const ownCount = cells.filter(cell => cell === own).length;
+      const otherCount = cells.filter(cell => cell !== null && cell !== own).length;
+
+      if (otherCount === 0) score += ownCount === 3 ? 5 : ownCount === 2 ? 2 : 0;
+      if (ownCount === 0) score -= otherCount === 3 ? 5 : otherCount === 2 ? 2 : 0;
+    });
+
+    const centre = Math.floor(state.board[0].length / 2);
+    state.board.forEach(cells => {
+      if (cells[centre] === own) score += 3;
+      else if (cells[centre] !== null) score -= 3;
+    });
+
+    return score;
+  }
+
+  getSearchMoves(state: ConnectFourGameState): ConnectFourMove[] {
+    return CONNECT_FOUR_SEARCH_ORDER
+      .map(column => ({ column }))
+      .filter(move => this.validateMove(state, move));
+  }
+
+  private getDropRow(board: (ConnectFourDisc | null)[][], column: number): number {
+    let row = board.length - 1;
+    while (board[row][column] !== null) row--;
+    return row;
+  }
+
+  private findWinningLine(board: (ConnectFourDisc | null)[][], row: number, col: number): [number, number][] | undefined {
+    for (const direction of LINE_DIRECTIONS) {
+      const run = getRun(board, row, col, direction);
+      if (run.length >= CONNECT_FOUR_LENGTH) return run;
+    }
+
+    return undefined;
+  }
+}
+
+export const connectFourRules = new ConnectFourRules();
@@ -0,0 +1,66 @@
+import { GameType } from '../../types';
+import { GameRules } from './types';
+import { unoRules, UnoGameState, UnoMove, UnoSetupOptions } from './uno';
+import { chessRules, ChessDrawAction, ChessGameState, ChessMove, ChessSetupOptions } from './chess';
+import { checkersRules, CheckersDrawAction, CheckersGameState, CheckersMove, CheckersSetupOptions } from './checkers';
+import { connectFourRules, ConnectFourGameState, ConnectFourMove, ConnectFourSetupOptions } from './connectFour';
+import { caroRules, CaroGameState, CaroMove, CaroSetupOptions } from './caro';
+import { xiangqiRules, XiangqiDrawAction, XiangqiGameState, XiangqiMove, XiangqiSetupOptions } from './xiangqi';
+
+export * from './types';
+export * from './uno';
+export * from './chess';
+export * from './checkers';
+export * from './connectFour';
+export * from './caro';
+export * from './xiangqi';
+
+// State, move and setup types per game; a new game adds one entry to each
+export interface GameStateMap {
+  [GameType.UNO]: UnoGameState;
+  [GameType.CHESS]: ChessGameState;
+  [GameType.CHECKERS]: CheckersGameState;
+  [GameType.CONNECT_FOUR]: ConnectFourGameState;
+  [GameType.CARO]: CaroGameState;
+  [GameType.XIANGQI]: XiangqiGameState;
+}
+
+export interface GameMoveMap {
+  [GameType.UNO]: UnoMove;
+  [GameType.CHESS]: ChessMove | ChessDrawAction;
+  [GameType.CHECKERS]: CheckersMove | CheckersDrawAction;
+  [GameType.CONNECT_FOUR]: ConnectFourMove;
+  [GameType.CARO]: CaroMove;
+  [GameType.XIANGQI]: XiangqiMove | XiangqiDrawAction;
+}
+
+export interface GameOptionsMap {
+  [GameType.UNO]: UnoSetupOptions;
+  [GameType.CHESS]: ChessSetupOptions;
+  [GameType.CHECKERS]: CheckersSetupOptions;
+  [GameType.CONNECT_FOUR]: ConnectFourSetupOptions;
+  [GameType.CARO]: CaroSetupOptions;
+  [GameType.XIANGQI]: XiangqiSetupOptions;
+}
+
+export type GameRulesFor<T extends GameType> = GameRules<GameStateMap[T], GameMoveMap[T], GameOptionsMap[T]>;
+
+export type GameRulesRegistry = { [T in GameType]: GameRulesFor<T> };
+
+// Every playable game, in the order they are listed in the lobby
+export const gameRegistry: GameRulesRegistry = {
+  [GameType.UNO]: unoRules,
+  [GameType.CHESS]: chessRules,
+  [GameType.CHECKERS]: checkersRules,
+  [GameType.CONNECT_FOUR]: connectFourRules,
+  [GameType.CARO]: caroRules,
+  [GameType.XIANGQI]: xiangqiRules
+};
+
+export const getGameRules = <T extends GameType>(gameType: T): GameRulesFor<T> => {
+  // Indexing with a generic key widens to the union of all rules, so narrow it back
+  return gameRegistry[gameType] as GameRulesFor<T>;
+};
+
+export const isSupportedGame = (gameType: string): gameType is GameType =>
+  Object.prototype.hasOwnProperty.call(gameRegistry, gameType);
@@ -0,0 +1,52 @@
+// Helpers for games won by lining up pieces on a grid (Connect Four, Caro)
+
+// Horizontal, vertical and both diagonals as [row, col] deltas
+export const LINE_DIRECTIONS = [[0, 1], [1, 0], [1, 1], [1, -1]];
+
+export const isOnGrid = <T>(board: (T | null)[][], row: number, col: number): boolean =>
+  row >= 0 && row < board.length && col >= 0 && col < board[row].length;
+
+// Cells in the unbroken run of the piece at (row, col) along a direction, ordered end to end
+export const getRun = <T>(board: (T | null)[][], row: number, col: number, [dRow, dCol]: number[]): [number, number][] => {
+  const piece = board[row][col];
+  if (piece === null) return [];
+
+  let startRow = row;
+  let startCol = col;
+  while (isOnGrid(board, startRow - dRow, startCol - dCol) && board[startRow - dRow][startCol - dCol] === piece) {
+    startRow -= dRow;
+    startCol -= dCol;
+  }
+
+  const run: [number, number][] = [];
+  for (let r = startRow, c = startCol; isOnGrid(board, r, c) && board[r][c] === piece; r += dRow, c += dCol) {
+    run.push([r, c]);
+  }
+
+  return run;
+};
+
+// Visit every straight window of `length` cells on the board
+export const forEachWindow = <T>(board: (T | null)[][], length: number, visit: (cells: (T | null)[]) => void): void => {
+  board.forEach((cells, row) => {
+    cells.forEach((_, col) => {
+      LINE_DIRECTIONS.forEach(([dRow, dCol]) => {
+        if (!isOnGrid(board, row + dRow * (length - 1), col + dCol * (length - 1))) return;
+
+        const window: (T | null)[] = [];
+        for (let i = 0; i < length; i++) {
+          window.push(board[row + dRow * i][col + dCol * i]);
+        }
+        visit(window);
+      });
+    });
+  });
+};
+
+// Return a new board with one cell replaced, sharing untouched rows
+export const placeOnGrid = <T>(board: (T | null)[][], row: number, col: number, piece: T): (T | null)[][] => {
+  const newBoard = [...board];
+  newBoard[row] = [...board[row]];
+  newBoard[row][col] = piece;
+  return newBoard;
+};
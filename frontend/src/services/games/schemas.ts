@@ -0,0 +1,219 @@
+import { z } from 'zod';
+import { GameType } from '../../types';
+import { unoHouseRulesSchema } from '../../types/socket';
+import type { GameMoveMap, GameStateMap } from './index';
+import { UnoCard, UnoGameState, UnoMove } from './uno';
+import { ChessDrawAction, ChessGameState, ChessMove } from './chess';
+import { CheckersDrawAction, CheckersGameState, CheckersMove } from './checkers';
+import { ConnectFourGameState, ConnectFourMove } from './connectFour';
+import { CaroGameState, CaroMove } from './caro';
+import { XiangqiDrawAction, XiangqiGameState, XiangqiMove } from './xiangqi';
+
+// Schemas for the game states and moves that come in over the wire. Each one is typed
+// against its interface, so the two can't drift apart without the compiler noticing
+
+type WireSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+const baseStateShape = {
+  currentPlayer: z.string(),
+  players: z.array(z.string()),
+  winner: z.string().optional(),
+  isDraw: z.boolean().optional(),
+  timeRemaining: z.number().optional()
+};
+
+const square = z.tuple([z.number(), z.number()]);
+
+const drawActionTypes = z.enum(['offer-draw', 'accept-draw', 'decline-draw']);
+
+// UNO
+
+const unoColor = z.enum(['red', 'blue', 'green', 'yellow']);
+
+const unoCard: WireSchema<UnoCard> = z.object({
+  color: z.union([unoColor, z.literal('wild')]),
+  value: z.union([z.string(), z.number()]),
+  id: z.string()
+});
+
+// Hands arrive as a plain object from JSON, or as entries from the rules engine's own serialization
+const unoHands = z.union([
+  z.map(z.string(), z.array(unoCard)),
+  z.array(z.tuple([z.string(), z.array(unoCard)])).transform(entries => new Map(entries)),
+  z.record(z.array(unoCard)).transform(hands => new Map(Object.entries(hands)))
+]);
+
+const unoRoundResult = z.object({ round: z.number(), winner: z.string(), points: z.number() });
+
+const unoState: WireSchema<UnoGameState> = z.object({
+  ...baseStateShape,
+  deck: z.array(unoCard),
+  discardPile: z.array(unoCard),
+  playerHands: unoHands,
+  currentColor: unoColor.optional(),
+  direction: z.union([z.literal(1), z.literal(-1)]),
+  drawStack: z.number(),
+  drawnCardId: z.string().optional(),
+  houseRules: unoHouseRulesSchema.optional(),
+  unoCall: z.object({ playerId: z.string(), called: z.boolean(), playedAt: z.number() }).optional(),
+  unoCallWindow: z.number().optional(),
+  lastDrawFour: z.object({ playerId: z.string(), wasLegal: z.boolean() }).optional(),
+  match: z.object({
+    targetScore: z.number(),
+    scores: z.record(z.number()),
+    rounds: z.array(unoRoundResult)
+  }).optional(),
+  seedCommitment: z.string().optional(),
+  shuffleCount: z.number().optional()
+});
+
+const unoMove: WireSchema<UnoMove> = z.object({
+  type: z.enum(['play', 'draw', 'pass', 'call-uno', 'challenge-uno', 'challenge-draw4']),
+  playerId: z.string(),
+  cardId: z.string().optional(),
+  color: unoColor.optional(),
+  targetPlayerId: z.string().optional(),
+  timestamp: z.number().optional()
+});
+
+// Chess
+
+const chessPiece = z.enum(['pawn', 'rook', 'knight', 'bishop', 'queen', 'king']);
+const chessColor = z.enum(['white', 'black']);
+
+const chessMove: WireSchema<ChessMove> = z.object({
+  from: z.string(),
+  to: z.string(),
+  piece: chessPiece,
+  captured: chessPiece.optional(),
+  promotion: chessPiece.optional(),
+  notation: z.string()
+});
+
+const chessDrawAction: WireSchema<ChessDrawAction> = z.object({ type: drawActionTypes, color: chessColor });
+
+const chessState: WireSchema<ChessGameState> = z.object({
+  ...baseStateShape,
+  board: z.array(z.array(z.object({ piece: chessPiece.optional(), color: chessColor.optional() }))),
+  currentTurn: chessColor,
+  enPassant: z.string().optional(),
+  castling: z.object({
+    whiteKingSide: z.boolean(),
+    whiteQueenSide: z.boolean(),
+    blackKingSide: z.boolean(),
+    blackQueenSide: z.boolean()
+  }),
+  inCheck: z.boolean(),
+  checkmate: z.boolean(),
+  stalemate: z.boolean(),
+  halfmoveClock: z.number(),
+  fullmoveNumber: z.number(),
+  startFen: z.string().optional(),
+  positionHashes: z.array(z.string()),
+  drawOffer: chessColor.optional(),
+  drawReason: z.enum(['stalemate', 'threefold-repetition', 'fifty-move-rule', 'insufficient-material', 'agreement']).optional(),
+  moveHistory: z.array(chessMove)
+});
+
+// Checkers
+
+const checkersColor = z.enum(['red', 'black']);
+
+const checkersMove: WireSchema<CheckersMove> = z.object({
+  from: square,
+  to: square,
+  captured: z.array(square).optional(),
+  becameKing: z.boolean().optional()
+});
+
+const checkersDrawAction: WireSchema<CheckersDrawAction> = z.object({ type: drawActionTypes, color: checkersColor });
+
+const checkersState: WireSchema<CheckersGameState> = z.object({
+  ...baseStateShape,
+  board: z.array(z.array(z.object({ color: checkersColor, isKing: z.boolean() }).nullable())),
+  currentTurn: checkersColor,
+  variant: z.enum(['american', 'international', 'russian', 'brazilian']).optional(),
+  flyingKings: z.boolean().optional(),
+  mustCapture: z.boolean(),
+  captureSequence: z.array(z.string()),
+  pendingCaptures: z.array(square).optional(),
+  quietMoves: z.number(),
+  drawMoveLimit: z.number().optional(),
+  positionKeys: z.array(z.string()),
+  drawOffer: checkersColor.optional(),
+  drawReason: z.enum(['threefold-repetition', 'move-limit', 'agreement']).optional(),
+  moveHistory: z.array(checkersMove)
+});
+
+// Connect Four and Caro
+
+const connectFourMove: WireSchema<ConnectFourMove> = z.object({ column: z.number(), row: z.number().optional() });
+
+const connectFourState: WireSchema<ConnectFourGameState> = z.object({
+  ...baseStateShape,
+  board: z.array(z.array(z.enum(['red', 'yellow']).nullable())),
+  currentTurn: z.enum(['red', 'yellow']),
+  winningLine: z.array(square).optional(),
+  moveHistory: z.array(connectFourMove)
+});
+
+const caroMove: WireSchema<CaroMove> = z.object({ row: z.number(), col: z.number() });
+
+const caroState: WireSchema<CaroGameState> = z.object({
+  ...baseStateShape,
+  board: z.array(z.array(z.enum(['x', 'o']).nullable())),
+  size: z.number(),
+  winLength: z.number(),
+  blockedEnds: z.boolean(),
+  currentTurn: z.enum(['x', 'o']),
+  winningLine: z.array(square).optional(),
+  moveHistory: z.array(caroMove)
+});
+
+// Xiangqi
+
+const xiangqiPiece = z.enum(['general', 'advisor', 'elephant', 'horse', 'chariot', 'cannon', 'soldier']);
+const xiangqiColor = z.enum(['red', 'black']);
+
+const xiangqiMove: WireSchema<XiangqiMove> = z.object({
+  from: z.string(),
+  to: z.string(),
+  piece: xiangqiPiece,
+  captured: xiangqiPiece.optional(),
+  notation: z.string()
+});
+
+const xiangqiDrawAction: WireSchema<XiangqiDrawAction> = z.object({ type: drawActionTypes, color: xiangqiColor });
+
+const xiangqiState: WireSchema<XiangqiGameState> = z.object({
+  ...baseStateShape,
+  board: z.array(z.array(z.object({ piece: xiangqiPiece.optional(), color: xiangqiColor.optional() }))),
+  currentTurn: xiangqiColor,
+  inCheck: z.boolean(),
+  checkmate: z.boolean(),
+  stalemate: z.boolean(),
+  positionKeys: z.array(z.string()),
+  checks: z.array(z.boolean()),
+  drawOffer: xiangqiColor.optional(),
+  drawReason: z.literal('agreement').optional(),
+  moveHistory: z.array(xiangqiMove)
+});
+
+export const gameStateSchemas: { [T in GameType]: WireSchema<GameStateMap[T]> } = {
+  [GameType.UNO]: unoState,
+  [GameType.CHESS]: chessState,
+  [GameType.CHECKERS]: checkersState,
+  [GameType.CONNECT_FOUR]: connectFourState,
+  [GameType.CARO]: caroState,
+  [GameType.XIANGQI]: xiangqiState
+};
+
+// Draw actions carry a type and board moves don't, so each union has one match at most
+export const gameMoveSchemas: { [T in GameType]: WireSchema<GameMoveMap[T]> } = {
+  [GameType.UNO]: unoMove,
+  [GameType.CHESS]: z.union([chessMove, chessDrawAction]),
+  [GameType.CHECKERS]: z.union([checkersMove, checkersDrawAction]),
+  [GameType.CONNECT_FOUR]: connectFourMove,
+  [GameType.CARO]: caroMove,
+  [GameType.XIANGQI]: z.union([xiangqiMove, xiangqiDrawAction])
+};
@@ -0,0 +1,63 @@
+import { GameType } from '../../types';
+import { UnoRoundResult } from './uno';
+
+// Base interface for all game states
+export interface BaseGameState {
+  currentPlayer: string;
+  players: string[];
+  winner?: string;
+  isDraw?: boolean;
+  timeRemaining?: number;
+}
+
+// Result of a game-over check; reason explains draws such as 'threefold-repetition'
+export interface GameOverResult {
+  isOver: boolean;
+  winner?: string;
+  isDraw?: boolean;
+  reason?: string;
+  scores?: Record<string, number>;
+  rounds?: UnoRoundResult[];
+  // Shuffle seed, revealed once a game dealt from a seeded deck is over
+  seed?: string;
+}
+
+// How a game is presented in the lobby
+export interface GameInfo {
+  name: string;
+  description: string;
+  icon: string;
+  // Tailwind background class for the game card
+  color: string;
+  minPlayers: number;
+  maxPlayers: number;
+}
+
+// Everything needed to run one game type; each game implements this in its own module
+export interface GameRules<TState extends BaseGameState, TMove, TOptions> {
+  readonly type: GameType;
+  readonly info: GameInfo;
+  createInitialState(players: string[], options?: TOptions): TState;
+  validateMove(state: TState, move: TMove): boolean;
+  applyMove(state: TState, move: TMove): TState;
+  checkGameOver(state: TState): GameOverResult;
+  // Moves available to the player whose turn it is
+  getLegalMoves(state: TState): TMove[];
+  // Player or colour to move; it stays the same while a turn spans several moves
+  getSideToMove(state: TState): string;
+  serialize(state: TState): string;
+  deserialize(data: string): TState;
+  // AI support: a heuristic score for the side to move, higher is better for it
+  evaluate?(state: TState): number;
+  // Moves worth searching, best first; defaults to getLegalMoves
+  getSearchMoves?(state: TState): TMove[];
+  // Deepest search that still answers quickly, for games with expensive move generation
+  maxSearchDepth?: number;
+  // Replay support for games that keep a move history: the position the game started from,
+  // the recorded moves, and the moves that replay one record, which may stand for several
+  getStartState?(state: TState): TState;
+  getMoveHistory?(state: TState): TMove[];
+  expandHistoryMove?(state: TState, move: TMove): TMove[];
+  // Short human-readable name for a move, e.g. in a move list
+  formatMove?(move: TMove): string;
+}
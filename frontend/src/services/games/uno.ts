@@ -0,0 +1,690 @@
+import { GameType, UnoHouseRules } from '../../types';
+import { BaseGameState, GameInfo, GameOverResult, GameRules } from './types';
+import { createSeededRandom, generateSeed, sha256, shuffle } from './random';
+
+// UNO specific types
+export type UnoColor = 'red' | 'blue' | 'green' | 'yellow';
+
+export interface UnoCard {
+  color: UnoColor | 'wild';
+  value: string | number;
+  id: string;
+}
+
+export interface UnoGameState extends BaseGameState {
+  deck: UnoCard[];
+  discardPile: UnoCard[];
+  playerHands: Map<string, UnoCard[]>;
+  currentColor?: UnoColor;
+  direction: 1 | -1;
+  drawStack: number;
+  drawnCardId?: string;
+  houseRules?: UnoHouseRules;
+  unoCall?: UnoCallStatus;
+  // Milliseconds after going down to one card during which a missing UNO call can be challenged
+  unoCallWindow?: number;
+  lastDrawFour?: UnoDrawFourPlay;
+  match?: UnoMatchState;
+  // SHA-256 of the seed every shuffle is derived from, shown from the start so players can
+  // check the seed once it's revealed. The seed itself is never part of the state
+  seedCommitment?: string;
+  // Shuffles so far, each seeded from the game seed and its number
+  shuffleCount?: number;
+}
+
+// Multi-round match: rounds are dealt until a player reaches the target score
+export interface UnoMatchState {
+  targetScore: number;
+  scores: Record<string, number>;
+  rounds: UnoRoundResult[];
+}
+
+export interface UnoRoundResult {
+  round: number;
+  winner: string;
+  points: number;
+}
+
+export interface UnoCallStatus {
+  playerId: string;
+  called: boolean;
+  playedAt: number;
+}
+
+// Whether the last wild draw four was played without a card of the active colour
+export interface UnoDrawFourPlay {
+  playerId: string;
+  wasLegal: boolean;
+}
+
+// 'draw' pays a pending draw penalty or takes one card; 'pass' ends the turn after drawing.
+// 'call-uno' declares UNO; the challenge moves dispute a missing call or a wild draw four.
+export interface UnoMove {
+  type: 'play' | 'draw' | 'pass' | 'call-uno' | 'challenge-uno' | 'challenge-draw4';
+  playerId: string;
+  cardId?: string;
+  color?: UnoColor;
+  // Player to swap hands with under the seven-zero rule, or to challenge for not calling UNO
+  targetPlayerId?: string;
+  // When the move was made, in ms. Plays, UNO calls and UNO challenges need it, since
+  // they open or are timed against the call window; the rules never read the clock
+  timestamp?: number;
+}
+
+const TIMED_UNO_MOVES: UnoMove['type'][] = ['play', 'call-uno', 'challenge-uno'];
+
+export const DEFAULT_UNO_CALL_WINDOW = 3000;
+export const DEFAULT_UNO_TARGET_SCORE = 500;
+const UNO_HAND_SIZE = 7;
+export const UNO_DECK_SIZE = 108;
+
+const UNO_COLORS: UnoColor[] = ['red', 'blue', 'green', 'yellow'];
+
+export interface UnoSetupOptions {
+  houseRules?: UnoHouseRules;
+  unoCallWindow?: number;
+  // Play a multi-round match to this score instead of a single round
+  matchTargetScore?: number;
+  // Reproduce an earlier deal; a fresh random seed is used when left out
+  seed?: string;
+}
+
+export const DEFAULT_UNO_HOUSE_RULES: UnoHouseRules = {
+  stackDrawTwo: false,
+  stackDrawFour: false,
+  jumpIn: false,
+  sevenZero: false,
+  drawToMatch: false,
+  forcePlay: false
+};
+
+const UNO_DECK_VALUES: (string | number)[] = [1, 2, 3, 4, 5, 6, 7, 8, 9, 'skip', 'reverse', 'draw2'];
+
+// Standard 108-card deck: per colour one 0 and two each of 1-9, skip, reverse and draw two,
+// plus four wilds and four wild draw fours. Ids are '<color>-<value>-<copy>' for coloured
+// cards (e.g. 'red-7-2', 'blue-draw2-1', 'green-0-1') and '<value>-<copy>' for wild cards
+// ('wild-3', 'draw4-1'), with copies numbered from 1
+export const createUnoDeck = (): UnoCard[] => {
+  const cards: UnoCard[] = [];
+
+  UNO_COLORS.forEach(color => {
+    cards.push({ color, value: 0, id: `${color}-0-1` });
+    UNO_DECK_VALUES.forEach(value => {
+      cards.push({ color, value, id: `${color}-${value}-1` }, { color, value, id: `${color}-${value}-2` });
+    });
+  });
+
+  ['wild', 'draw4'].forEach(value => {
+    for (let copy = 1; copy <= 4; copy++) {
+      cards.push({ color: 'wild', value, id: `${value}-${copy}` });
+    }
+  });
+
+  return cards;
+};
+
+class UnoRules implements GameRules<UnoGameState, UnoMove, UnoSetupOptions> {
+  readonly type = GameType.UNO;
+
+  // Seeds of the games dealt or registered here, by commitment. Only an engine holding a
+  // game's seed can shuffle it; the dealer reveals it in the result once the game is over.
+  // Whoever deals or registers a seed releases it when done with the game
+  private readonly seeds = new Map<string, string>();
+
+  readonly info: GameInfo = {
+    name: 'UNO',
+    description: 'Classic card game of matching colors and numbers',
+    icon: '🎴',
+    color: 'bg-game-uno',
+    minPlayers: 2,
+    maxPlayers: 4
+  };
+
+  // Shuffle a full deck and deal the first round
+  createInitialState(players: string[], options: UnoSetupOptions = {}): UnoGameState {
+    const seed = options.seed ?? generateSeed();
+    const seedCommitment = sha256(seed);
+    this.seeds.set(seedCommitment, seed);
+
+    return this.dealUnoRound({
+      players,
+      currentPlayer: players[0] || '',
+      deck: createUnoDeck(),
+      discardPile: [],
+      playerHands: new Map(),
+      direction: 1,
+      drawStack: 0,
+      houseRules: options.houseRules,
+      unoCallWindow: options.unoCallWindow,
+      match: options.matchTargetScore
+        ? { targetScore: options.matchTargetScore, scores: {}, rounds: [] }
+        : undefined,
+      seedCommitment,
+      shuffleCount: 0
+    });
+  }
+
+  // Check a seed revealed at the end of the game against the commitment published at the start
+  verifySeed(state: UnoGameState, seed: string): boolean {
+    return state.seedCommitment !== undefined && sha256(seed) === state.seedCommitment;
+  }
+
+  // Let this engine shuffle a game it didn't deal, e.g. to replay it from a serialized state
+  // once the seed is revealed. A seed that doesn't match the commitment is turned down
+  registerSeed(seedCommitment: string, seed: string): boolean {
+    if (sha256(seed) !== seedCommitment) return false;
+
+    this.seeds.set(seedCommitment, seed);
+    return true;
+  }
+
+  // Forget a game's seed once nothing will shuffle it again
+  releaseSeed(seedCommitment: string): void {
+    this.seeds.delete(seedCommitment);
+  }
+
+  // Every card the current player may play, with each colour for wilds and each swap
+  // target for a seven, plus drawing, passing and challenging a wild draw four.
+  // Plays are stamped with the given time, so pass the current time to play one
+  getLegalMoves(state: UnoGameState, timestamp = 0): UnoMove[] {
+    const playerId = state.currentPlayer;
+    const hand = state.playerHands.get(playerId) || [];
+    const swapTargets = state.players.filter(id => id !== playerId);
+
+    const moves: UnoMove[] = [
+      { type: 'draw', playerId },
+      { type: 'pass', playerId },
+      { type: 'challenge-draw4', playerId }
+    ];
+
+    hand.forEach(card => {
+      const colors = card.color === 'wild' ? UNO_COLORS : [undefined];
+      const targets = card.value === 7 && this.getUnoHouseRules(state).sevenZero ? swapTargets : [undefined];
+
+      colors.forEach(color => {
+        targets.forEach(targetPlayerId => {
+          moves.push({ type: 'play', playerId, cardId: card.id, color, targetPlayerId, timestamp });
+        });
+      });
+    });
+
+    return moves.filter(move => this.validateMove(state, move));
+  }
+
+  getSideToMove(state: UnoGameState): string {
+    return state.currentPlayer;
+  }
+
+  // Hands are stored as a Map, which JSON can't represent directly
+  serialize(state: UnoGameState): string {
+    return JSON.stringify({ ...state, playerHands: Array.from(state.playerHands.entries()) });
+  }
+
+  deserialize(data: string): UnoGameState {
+    const parsed = JSON.parse(data);
+    return { ...parsed, playerHands: new Map(parsed.playerHands) };
+  }
+
+  formatMove(move: UnoMove): string {
+    switch (move.type) {
+      case 'draw':
+        return `${move.playerId} draws`;
+      case 'pass':
+        return `${move.playerId} passes`;
+      case 'call-uno':
+        return `${move.playerId} calls UNO`;
+      case 'challenge-uno':
+        return `${move.playerId} catches ${move.targetPlayerId} without UNO`;
+      case 'challenge-draw4':
+        return `${move.playerId} challenges the wild draw four`;
+      default: {
+        const chosenColor = move.color ? ` (${move.color})` : '';
+        const swap = move.targetPlayerId ? `, swapping with ${move.targetPlayerId}` : '';
+        return `${move.playerId} plays ${this.getUnoCardName(move.cardId || '')}${chosenColor}${swap}`;
+      }
+    }
+  }
+
+  validateMove(state: UnoGameState, move: UnoMove): boolean {
+    const rules = this.getUnoHouseRules(state);
+    const playerHand = state.playerHands.get(move.playerId);
+    if (!playerHand) return false;
+    if (TIMED_UNO_MOVES.includes(move.type) && move.timestamp === undefined) return false;
+
+    // UNO calls and challenges may be made out of turn
+    if (move.type === 'call-uno') {
+      return this.canCallUno(state, move, playerHand);
+    }
+    if (move.type === 'challenge-uno') {
+      return this.canChallengeUno(state, move);
+    }
+
+    if (move.playerId !== state.currentPlayer) {
+      return move.type === 'play' && rules.jumpIn && this.isUnoJumpIn(state, move, playerHand);
+    }
+
+    switch (move.type) {
+      case 'draw':
+        return state.drawnCardId === undefined;
+      case 'pass':
+        // Passing is only allowed after drawing a playable card, unless it must be played
+        return state.drawnCardId !== undefined && !rules.forcePlay;
+      case 'challenge-draw4':
+        // The victim of a wild draw four may challenge instead of drawing
+        return state.lastDrawFour !== undefined && state.drawStack > 0;
+      case 'play': {
+        const card = playerHand.find(c => c.id === move.cardId);
+        if (!card) return false;
+
+        // A pending draw penalty has to be paid first, unless it can be stacked
+        if (state.drawStack > 0 && !this.canStackUnoCard(state, card)) return false;
+
+        // After drawing, only the drawn card may be played
+        if (state.drawnCardId !== undefined && card.id !== state.drawnCardId) return false;
+
+        // Wild cards need a colour choice
+        if (card.color === 'wild' && (!move.color || !UNO_COLORS.includes(move.color))) return false;
+
+        if (!this.hasUnoSwapTarget(state, move, card)) return false;
+
+        return state.drawStack > 0 || this.isUnoCardPlayable(state, card);
+      }
+      default:
+        return false;
+    }
+  }
+
+  private getUnoHouseRules(state: UnoGameState): UnoHouseRules {
+    return { ...DEFAULT_UNO_HOUSE_RULES, ...state.houseRules };
+  }
+
+  // Jump-in: any player may play a card identical to the top card out of turn
+  private isUnoJumpIn(state: UnoGameState, move: UnoMove, hand: UnoCard[]): boolean {
+    const card = hand.find(c => c.id === move.cardId);
+    const topCard = state.discardPile[state.discardPile.length - 1];
+    if (!card || !topCard || card.color === 'wild' || state.drawStack > 0) return false;
+
+    return card.color === topCard.color && card.value === topCard.value && this.hasUnoSwapTarget(state, move, card);
+  }
+
+  // Seven-zero: a 7 needs an opponent at the table to swap hands with
+  private hasUnoSwapTarget(state: UnoGameState, move: UnoMove, card: UnoCard): boolean {
+    if (!this.getUnoHouseRules(state).sevenZero || card.value !== 7) return true;
+
+    const { targetPlayerId } = move;
+    return targetPlayerId !== undefined && targetPlayerId !== move.playerId && state.players.includes(targetPlayerId);
+  }
+
+  private canCallUno(state: UnoGameState, move: UnoMove, hand: UnoCard[]): boolean {
+    // Call before playing the second-to-last card
+    if (hand.length === 2) {
+      return move.playerId === state.currentPlayer && state.drawStack === 0;
+    }
+
+    // Or straight after going down to one card
+    return hand.length === 1 && state.unoCall?.playerId === move.playerId && !state.unoCall.called;
+  }
+
+  private canChallengeUno(state: UnoGameState, move: UnoMove): boolean {
+    const call = state.unoCall;
+    if (!call || call.called || call.playerId !== move.targetPlayerId || call.playerId === move.playerId) {
+      return false;
+    }
+
+    const callWindow = state.unoCallWindow || DEFAULT_UNO_CALL_WINDOW;
+    return state.playerHands.get(call.playerId)!.length === 1 && move.timestamp! - call.playedAt <= callWindow;
+  }
+
+  private canStackUnoCard(state: UnoGameState, card: UnoCard): boolean {
+    const rules = this.getUnoHouseRules(state);
+    const topCard = state.discardPile[state.discardPile.length - 1];
+    if (!topCard || card.value !== topCard.value) return false;
+
+    return (card.value === 'draw2' && rules.stackDrawTwo) || (card.value === 'draw4' && rules.stackDrawFour);
+  }
+
+  private isUnoCardPlayable(state: UnoGameState, card: UnoCard): boolean {
+    const topCard = state.discardPile[state.discardPile.length - 1];
+    if (!topCard) return true;
+
+    const activeColor = state.currentColor || topCard.color;
+
+    // Wild cards can always be played; an illegal wild draw four can be challenged
+    if (card.color === 'wild') return true;
+
+    // Match color or value
+    return card.color === activeColor || card.value === topCard.value;
+  }
+
+  // Wild draw four is only legal without a card of the active colour in hand
+  private isLegalDrawFour(state: UnoGameState, card: UnoCard, hand: UnoCard[]): boolean {
+    const topCard = state.discardPile[state.discardPile.length - 1];
+    const activeColor = state.currentColor || topCard?.color;
+
+    return !hand.some(c => c.id !== card.id && c.color === activeColor);
+  }
+
+  applyMove(state: UnoGameState, move: UnoMove): UnoGameState {
+    switch (move.type) {
+      case 'draw':
+        return this.applyUnoDraw(state, move.playerId);
+      case 'pass':
+        return {
+          ...state,
+          drawnCardId: undefined,
+          currentPlayer: this.getNextUnoPlayer(state, move.playerId, 1)
+        };
+      case 'call-uno':
+        return {
+          ...state,
+          unoCall: {
+            playerId: move.playerId,
+            called: true,
+            playedAt: state.unoCall?.playerId === move.playerId ? state.unoCall.playedAt : move.timestamp!
+          }
+        };
+      case 'challenge-uno':
+        // Caught without calling UNO: two card penalty
+        return this.giveUnoCards({ ...state, unoCall: undefined }, move.targetPlayerId!, 2);
+      case 'challenge-draw4':
+        return this.applyDrawFourChallenge(state, move.playerId);
+      default:
+        return this.applyUnoPlay(state, move);
+    }
+  }
+
+  // A guilty bluffer draws the penalty instead; otherwise the challenger draws two extra and loses the turn
+  private applyDrawFourChallenge(state: UnoGameState, challengerId: string): UnoGameState {
+    const { playerId: offenderId, wasLegal } = state.lastDrawFour!;
+    const resolved: UnoGameState = { ...state, drawStack: 0, lastDrawFour: undefined };
+
+    if (!wasLegal) {
+      return this.giveUnoCards(resolved, offenderId, state.drawStack);
+    }
+
+    const newState = this.giveUnoCards(resolved, challengerId, state.drawStack + 2);
+    newState.currentPlayer = this.getNextUnoPlayer(newState, challengerId, 1);
+    return newState;
+  }
+
+  private giveUnoCards(state: UnoGameState, playerId: string, count: number): UnoGameState {
+    const { deck, discardPile, cards, shuffleCount } = this.drawUnoCards(state, count);
+    const playerHands = new Map(state.playerHands);
+    playerHands.set(playerId, [...state.playerHands.get(playerId)!, ...cards]);
+
+    return {
+      ...state,
+      deck,
+      discardPile,
+      shuffleCount,
+      playerHands,
+      unoCall: state.unoCall?.playerId === playerId ? undefined : state.unoCall
+    };
+  }
+
+  private applyUnoPlay(state: UnoGameState, move: UnoMove): UnoGameState {
+    const { cardId, playerId, color } = move;
+
+    // Remove card from player's hand
+    const playerHand = state.playerHands.get(playerId)!;
+    const card = playerHand.find(c => c.id === cardId)!;
+    const playerHands = new Map(state.playerHands);
+    playerHands.set(playerId, playerHand.filter(c => c.id !== cardId));
+
+    // Add to discard pile
+    const newState: UnoGameState = {
+      ...state,
+      playerHands,
+      discardPile: [...state.discardPile, card],
+      currentColor: card.color === 'wild' ? color : card.color,
+      drawnCardId: undefined,
+      lastDrawFour: card.value === 'draw4'
+        ? { playerId, wasLegal: this.isLegalDrawFour(state, card, playerHand) }
+        : undefined
+    };
+
+    // Going down to one card opens the UNO call window, unless it was already called
+    if (playerHand.length === 2) {
+      const alreadyCalled = state.unoCall?.playerId === playerId && state.unoCall.called;
+      newState.unoCall = { playerId, called: alreadyCalled, playedAt: move.timestamp! };
+    } else if (state.unoCall?.playerId === playerId) {
+      newState.unoCall = undefined;
+    }
+
+    // Seven-zero: 7 swaps hands with the chosen player, 0 passes every hand along
+    const rules = this.getUnoHouseRules(state);
+    const hasCardsLeft = playerHands.get(playerId)!.length > 0;
+    if (rules.sevenZero && hasCardsLeft && card.value === 7 && move.targetPlayerId) {
+      const targetHand = playerHands.get(move.targetPlayerId)!;
+      playerHands.set(move.targetPlayerId, playerHands.get(playerId)!);
+      playerHands.set(playerId, targetHand);
+    } else if (rules.sevenZero && hasCardsLeft && card.value === 0) {
+      const hands = state.players.map(id => playerHands.get(id)!);
+      state.players.forEach((id, index) => {
+        const fromIndex = (index - state.direction + state.players.length) % state.players.length;
+        playerHands.set(id, hands[fromIndex]);
+      });
+    }
+
+    // Handle special cards
+    let steps = 1;
+    if (card.value === 'skip') {
+      steps = 2;
+    } else if (card.value === 'reverse') {
+      newState.direction = state.direction === 1 ? -1 : 1;
+      // With two players reverse acts as a skip
+      if (state.players.length === 2) steps = 2;
+    } else if (card.value === 'draw2') {
+      newState.drawStack = state.drawStack + 2;
+    } else if (card.value === 'draw4') {
+      newState.drawStack = state.drawStack + 4;
+    }
+
+    // Move to next player; a draw penalty is paid by them with a draw move
+    newState.currentPlayer = this.getNextUnoPlayer(newState, playerId, steps);
+
+    if (playerHands.get(playerId)!.length === 0) {
+      return this.finishUnoRound(newState, playerId);
+    }
+
+    return newState;
+  }
+
+  // Score a finished round; in match mode deal the next one until the target score is reached
+  private finishUnoRound(state: UnoGameState, winnerId: string): UnoGameState {
+    // A draw card played as the last card still makes the next player draw
+    let newState = state.drawStack > 0
+      ? this.giveUnoCards({ ...state, drawStack: 0, lastDrawFour: undefined }, state.currentPlayer, state.drawStack)
+      : state;
+
+    if (!newState.match) return newState;
+
+    const { match } = newState;
+    const points = this.scoreUnoRound(newState, winnerId);
+    const scores = { ...match.scores, [winnerId]: (match.scores[winnerId] || 0) + points };
+    const rounds = [...match.rounds, { round: match.rounds.length + 1, winner: winnerId, points }];
+
+    newState = { ...newState, match: { ...match, scores, rounds } };
+
+    if (scores[winnerId] >= match.targetScore) return newState;
+
+    return this.dealUnoRound(newState);
+  }
+
+  // Collect every card, shuffle and deal a fresh round
+  private dealUnoRound(state: UnoGameState): UnoGameState {
+    const hands = Array.from(state.playerHands.values());
+    const deck = this.shuffleUnoCards(state, [...state.deck, ...state.discardPile, ...hands.reduce((all, hand) => all.concat(hand), [])]);
+
+    const playerHands = new Map<string, UnoCard[]>();
+    state.players.forEach(playerId => {
+      playerHands.set(playerId, deck.splice(deck.length - UNO_HAND_SIZE, UNO_HAND_SIZE));
+    });
+
+    // Flip until a number card starts the discard pile; action and wild cards go back under the deck
+    let topCard = deck.pop()!;
+    while (!this.isUnoNumberCard(topCard) && deck.some(card => this.isUnoNumberCard(card))) {
+      deck.unshift(topCard);
+      topCard = deck.pop()!;
+    }
+
+    // The lead passes round the table each round
+    const rounds = state.match ? state.match.rounds.length : 0;
+
+    return {
+      ...state,
+      deck,
+      discardPile: [topCard],
+      shuffleCount: (state.shuffleCount ?? 0) + 1,
+      playerHands,
+      currentColor: topCard.color === 'wild' ? undefined : topCard.color,
+      currentPlayer: state.players[rounds % state.players.length],
+      direction: 1,
+      drawStack: 0,
+      drawnCardId: undefined,
+      unoCall: undefined,
+      lastDrawFour: undefined
+    };
+  }
+
+  // The round winner scores the cards left in every opponent's hand
+  private scoreUnoRound(state: UnoGameState, winnerId: string): number {
+    return state.players
+      .filter(playerId => playerId !== winnerId)
+      .reduce((total, playerId) => total + (state.playerHands.get(playerId) || []).reduce(
+        (sum, card) => sum + this.getUnoCardPoints(card), 0
+      ), 0);
+  }
+
+  private isUnoNumberCard(card: UnoCard): boolean {
+    return card.color !== 'wild' && /^\d$/.test(String(card.value));
+  }
+
+  private getUnoCardPoints(card: UnoCard): number {
+    if (card.color === 'wild') return 50;
+    if (card.value === 'skip' || card.value === 'reverse' || card.value === 'draw2') return 20;
+
+    return Number(card.value) || 0;
+  }
+
+  private applyUnoDraw(state: UnoGameState, playerId: string): UnoGameState {
+    const isPenalty = state.drawStack > 0;
+    const rules = this.getUnoHouseRules(state);
+    const currentHand = state.playerHands.get(playerId)!;
+
+    let { deck, discardPile, cards, shuffleCount } = this.drawUnoCards(state, isPenalty ? state.drawStack : 1);
+
+    // Draw-to-match: keep drawing until a playable card turns up or the cards run out
+    if (!isPenalty && rules.drawToMatch) {
+      while (cards.length > 0 && !this.isUnoCardPlayable(state, cards[cards.length - 1])) {
+        const next = this.drawUnoCards({ ...state, deck, discardPile, shuffleCount }, 1);
+        if (next.cards.length === 0) break;
+
+        deck = next.deck;
+        discardPile = next.discardPile;
+        shuffleCount = next.shuffleCount;
+        cards = [...cards, ...next.cards];
+      }
+    }
+
+    const playerHands = new Map(state.playerHands);
+    const hand = [...currentHand, ...cards];
+    playerHands.set(playerId, hand);
+
+    const newState: UnoGameState = {
+      ...state,
+      deck,
+      discardPile,
+      shuffleCount,
+      playerHands,
+      drawStack: 0,
+      lastDrawFour: undefined,
+      unoCall: state.unoCall?.playerId === playerId ? undefined : state.unoCall
+    };
+
+    // A playable card drawn voluntarily may be played straight away
+    const drawnCard = cards[cards.length - 1];
+    if (!isPenalty && drawnCard && this.isUnoCardPlayable(newState, drawnCard)) {
+      newState.drawnCardId = drawnCard.id;
+      return newState;
+    }
+
+    newState.currentPlayer = this.getNextUnoPlayer(newState, playerId, 1);
+    return newState;
+  }
+
+  // Draw from the deck, reshuffling the discard pile under the top card when it runs out
+  private drawUnoCards(
+    state: UnoGameState,
+    count: number
+  ): { deck: UnoCard[]; discardPile: UnoCard[]; cards: UnoCard[]; shuffleCount?: number } {
+    let deck = [...state.deck];
+    let discardPile = state.discardPile;
+    let shuffleCount = state.shuffleCount;
+    const cards: UnoCard[] = [];
+
+    while (cards.length < count) {
+      if (deck.length === 0) {
+        if (discardPile.length <= 1) break;
+
+        // The discard pile is gathered in play order, which the move log fixes
+        deck = this.shuffleUnoCards({ ...state, shuffleCount }, discardPile.slice(0, -1));
+        discardPile = discardPile.slice(-1);
+        shuffleCount = (shuffleCount ?? 0) + 1;
+      }
+
+      cards.push(deck.pop()!);
+    }
+
+    return { deck, discardPile, cards, shuffleCount };
+  }
+
+  // Each shuffle gets its own stream, seeded from the game seed and the shuffle's number.
+  // An engine without the seed, e.g. a client predicting a draw, can't shuffle: the cards
+  // keep their order until the dealer's state replaces them
+  private shuffleUnoCards(state: UnoGameState, cards: UnoCard[]): UnoCard[] {
+    const seed = this.getUnoSeed(state);
+    return seed === undefined ? [...cards] : shuffle(cards, createSeededRandom(`${seed}:${state.shuffleCount ?? 0}`));
+  }
+
+  private getUnoSeed(state: UnoGameState): string | undefined {
+    return state.seedCommitment === undefined ? undefined : this.seeds.get(state.seedCommitment);
+  }
+
+  private getNextUnoPlayer(state: UnoGameState, playerId: string, steps: number): string {
+    const count = state.players.length;
+    const currentIndex = state.players.indexOf(playerId);
+    const nextIndex = (((currentIndex + steps * state.direction) % count) + count) % count;
+    return state.players[nextIndex];
+  }
+
+  checkGameOver(state: UnoGameState): GameOverResult {
+    if (state.match) {
+      const { scores, rounds, targetScore } = state.match;
+      const matchWinner = Object.keys(scores).find(playerId => scores[playerId] >= targetScore);
+
+      return matchWinner
+        ? { isOver: true, winner: matchWinner, scores: { ...scores }, rounds: [...rounds], seed: this.getUnoSeed(state) }
+        : { isOver: false };
+    }
+
+    const winner = Array.from(state.playerHands.keys()).find(playerId =>
+      state.playerHands.get(playerId)!.length === 0
+    );
+
+    return winner
+      ? { isOver: true, winner, scores: { [winner]: this.scoreUnoRound(state, winner) }, seed: this.getUnoSeed(state) }
+      : { isOver: false };
+  }
+
+  // Card ids are laid out by createUnoDeck
+  private getUnoCardName(cardId: string): string {
+    const [first, second] = cardId.split('-');
+    if (first === 'wild') return 'wild';
+    if (first === 'draw4') return 'wild draw four';
+
+    return `${first} ${second === 'draw2' ? 'draw two' : second}`;
+  }
+}
+
+export const unoRules = new UnoRules();
@@ -0,0 +1,504 @@
+import { GameType } from '../../types';
+import { BaseGameState, GameInfo, GameOverResult, GameRules } from './types';
+
+// Xiangqi (Cờ Tướng) specific types
+export type XiangqiPiece = 'general' | 'advisor' | 'elephant' | 'horse' | 'chariot' | 'cannon' | 'soldier';
+export type XiangqiColor = 'red' | 'black';
+
+export interface XiangqiSquare {
+  piece?: XiangqiPiece;
+  color?: XiangqiColor;
+}
+
+// Ten ranks of nine files; row 0 is red's back rank and the river runs between rows 4 and 5
+export type XiangqiBoard = XiangqiSquare[][];
+
+export interface XiangqiGameState extends BaseGameState {
+  board: XiangqiBoard;
+  currentTurn: XiangqiColor;
+  inCheck: boolean;
+  checkmate: boolean;
+  // Unlike chess, a side left without a legal move loses
+  stalemate: boolean;
+  // Every position reached, with whether the move into it gave check
+  positionKeys: string[];
+  checks: boolean[];
+  drawOffer?: XiangqiColor;
+  drawReason?: 'agreement';
+  moveHistory: XiangqiMove[];
+}
+
+// Squares use files a-i from red's left and ranks 0-9 from red's side, e.g. 'h2'
+export interface XiangqiMove {
+  from: string;
+  to: string;
+  piece: XiangqiPiece;
+  captured?: XiangqiPiece;
+  // WXF notation, e.g. 'C2.5' or 'H8+7'
+  notation: string;
+}
+
+export interface XiangqiDrawAction {
+  type: 'offer-draw' | 'accept-draw' | 'decline-draw';
+  color: XiangqiColor;
+}
+
+export type XiangqiSetupOptions = Record<string, never>;
+
+export const XIANGQI_FILES = 9;
+export const XIANGQI_RANKS = 10;
+
+const XIANGQI_BACK_RANK: XiangqiPiece[] = [
+  'chariot', 'horse', 'elephant', 'advisor', 'general', 'advisor', 'elephant', 'horse', 'chariot'
+];
+
+// Material values for the evaluation; soldiers double in value once across the river
+const XIANGQI_PIECE_VALUES: Record<XiangqiPiece, number> = {
+  general: 0,
+  advisor: 20,
+  elephant: 20,
+  horse: 40,
+  chariot: 90,
+  cannon: 45,
+  soldier: 10
+};
+const XIANGQI_WIN_SCORE = 1000000;
+
+// Movement as [row, col] deltas
+const ORTHOGONAL_STEPS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const DIAGONAL_STEPS = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+// Horse moves with the orthogonally adjacent "leg" square that blocks them
+const HORSE_MOVES = [
+  [2, 1, 1, 0], [2, -1, 1, 0], [-2, 1, -1, 0], [-2, -1, -1, 0],
+  [1, 2, 0, 1], [-1, 2, 0, 1], [1, -2, 0, -1], [-1, -2, 0, -1]
+];
+
+const WXF_LETTERS: Record<XiangqiPiece, string> = {
+  general: 'K',
+  advisor: 'A',
+  elephant: 'E',
+  horse: 'H',
+  chariot: 'R',
+  cannon: 'C',
+  soldier: 'P'
+};
+
+class XiangqiRules implements GameRules<XiangqiGameState, XiangqiMove | XiangqiDrawAction, XiangqiSetupOptions> {
+  readonly type = GameType.XIANGQI;
+
+  readonly info: GameInfo = {
+    name: 'Xiangqi',
+    description: 'Cờ Tướng - Chinese chess with cannons, palaces and a river',
+    icon: '🀄',
+    color: 'bg-game-xiangqi',
+    minPlayers: 2,
+    maxPlayers: 2
+  };
+
+  readonly maxSearchDepth = 3;
+
+  // Red moves first from rows 0-3, black mirrors it from rows 6-9
+  createInitialState(players: string[]): XiangqiGameState {
+    const board: XiangqiBoard = Array.from({ length: XIANGQI_RANKS }, () =>
+      Array.from({ length: XIANGQI_FILES }, () => ({} as XiangqiSquare))
+    );
+
+    (['red', 'black'] as XiangqiColor[]).forEach(color => {
+      const rank = (row: number) => (color === 'red' ? row : XIANGQI_RANKS - 1 - row);
+
+      XIANGQI_BACK_RANK.forEach((piece, col) => {
+        board[rank(0)][col] = { piece, color };
+      });
+      [1, 7].forEach(col => {
+        board[rank(2)][col] = { piece: 'cannon', color };
+      });
+      [0, 2, 4, 6, 8].forEach(col => {
+        board[rank(3)][col] = { piece: 'soldier', color };
+      });
+    });
+
+    const state: XiangqiGameState = {
+      board,
+      currentTurn: 'red',
+      currentPlayer: players[0] || '',
+      players,
+      inCheck: false,
+      checkmate: false,
+      stalemate: false,
+      positionKeys: [],
+      checks: [false],
+      moveHistory: []
+    };
+
+    state.positionKeys = [this.getPositionKey(state.board, state.currentTurn)];
+    return state;
+  }
+
+  getLegalMoves(state: XiangqiGameState): XiangqiMove[] {
+    return this.generateLegalMoves(state);
+  }
+
+  getSideToMove(state: XiangqiGameState): string {
+    return state.currentTurn;
+  }
+
+  serialize(state: XiangqiGameState): string {
+    return JSON.stringify(state);
+  }
+
+  deserialize(data: string): XiangqiGameState {
+    return JSON.parse(data);
+  }
+
+  getStartState(state: XiangqiGameState): XiangqiGameState {
+    return this.createInitialState(state.players);
+  }
+
+  getMoveHistory(state: XiangqiGameState): XiangqiMove[] {
+    return state.moveHistory;
+  }
+
+  formatMove(move: XiangqiMove | XiangqiDrawAction): string {
+    return this.isDrawAction(move) ? `${move.color} ${move.type.replace('-', 's ')}` : move.notation;
+  }
+
+  // Get all legal moves for the piece standing on a square
+  getLegalMovesFrom(state: XiangqiGameState, square: string): XiangqiMove[] {
+    return this.generateLegalMoves(state, square);
+  }
+
+  validateMove(state: XiangqiGameState, move: XiangqiMove | XiangqiDrawAction): boolean {
+    if (this.isDrawAction(move)) {
+      if (move.type === 'offer-draw') return state.drawOffer !== move.color;
+      return state.drawOffer !== undefined && state.drawOffer !== move.color;
+    }
+
+    return this.findLegalMove(state, move) !== undefined;
+  }
+
+  applyMove(state: XiangqiGameState, move: XiangqiMove | XiangqiDrawAction): XiangqiGameState {
+    if (this.isDrawAction(move)) {
+      return this.applyDrawAction(state, move);
+    }
+
+    const legalMove = this.findLegalMove(state, move) || move;
+    const nextTurn = this.getOpponent(state.currentTurn);
+
+    const newState: XiangqiGameState = {
+      ...state,
+      board: this.makeBoardMove(state.board, legalMove),
+      currentTurn: nextTurn,
+      currentPlayer: state.players[nextTurn === 'red' ? 0 : 1] || '',
+      // Moving instead of answering declines the opponent's draw offer
+      drawOffer: state.drawOffer === state.currentTurn ? state.drawOffer : undefined
+    };
+
+    const hasLegalMoves = this.generateLegalMoves(newState).length > 0;
+    newState.inCheck = this.isGeneralExposed(newState.board, nextTurn);
+    newState.checkmate = newState.inCheck && !hasLegalMoves;
+    newState.stalemate = !newState.inCheck && !hasLegalMoves;
+
+    newState.positionKeys = [...state.positionKeys, this.getPositionKey(newState.board, nextTurn)];
+    newState.checks = [...state.checks, newState.inCheck];
+    newState.moveHistory = [...state.moveHistory, { ...legalMove, notation: this.toWXF(state.board, legalMove) }];
+
+    return newState;
+  }
+
+  checkGameOver(state: XiangqiGameState): GameOverResult {
+    const opponent = this.getOpponent(state.currentTurn);
+
+    if (state.checkmate) {
+      return { isOver: true, winner: opponent };
+    }
+    if (state.stalemate) {
+      return { isOver: true, winner: opponent, reason: 'stalemate' };
+    }
+    if (state.drawReason) {
+      return { isOver: true, isDraw: true, reason: state.drawReason };
+    }
+
+    return this.getRepetitionResult(state) || { isOver: false };
+  }
+
+  evaluate(state: XiangqiGameState): number {
+    const result = this.checkGameOver(state);
+    if (result.isOver) {
+      if (result.isDraw) return 0;
+      return result.winner === state.currentTurn ? XIANGQI_WIN_SCORE : -XIANGQI_WIN_SCORE;
+    }
+
+    let score = 0;
+    state.board.forEach((cells, row) => {
+      cells.forEach(cell => {
+        if (!cell.piece) return;
+
+        const crossedRiver = cell.color === 'red' ? row >= 5 : row <= 4;
+        const value = XIANGQI_PIECE_VALUES[cell.piece] * (cell.piece === 'soldier' && crossedRiver ? 2 : 1);
+        score += cell.color === state.currentTurn ? value : -value;
+      });
+    });
+
+    return score;
+  }
+
+  // Captures of valuable pieces are searched first
+  getSearchMoves(state: XiangqiGameState): XiangqiMove[] {
+    const priority = (move: XiangqiMove) => (move.captured ? XIANGQI_PIECE_VALUES[move.captured] + 1 : 0);
+    return this.getLegalMoves(state).sort((a, b) => priority(b) - priority(a));
+  }
+
+  private isDrawAction(move: XiangqiMove | XiangqiDrawAction): move is XiangqiDrawAction {
+    return 'type' in move;
+  }
+
+  private applyDrawAction(state: XiangqiGameState, action: XiangqiDrawAction): XiangqiGameState {
+    switch (action.type) {
+      case 'offer-draw':
+        return { ...state, drawOffer: action.color };
+      case 'accept-draw':
+        return { ...state, drawOffer: undefined, isDraw: true, drawReason: 'agreement' };
+      case 'decline-draw':
+        return { ...state, drawOffer: undefined };
+    }
+  }
+
+  private findLegalMove(state: XiangqiGameState, move: XiangqiMove): XiangqiMove | undefined {
+    return this.generateLegalMoves(state, move.from).find(m => m.to === move.to);
+  }
+
+  // Moves for the side to move that leave its general neither attacked nor facing the other general
+  private generateLegalMoves(state: XiangqiGameState, square?: string): XiangqiMove[] {
+    const moves: XiangqiMove[] = [];
+
+    state.board.forEach((cells, row) => {
+      cells.forEach((cell, col) => {
+        if (cell.color !== state.currentTurn) return;
+        if (square && this.toSquare(row, col) !== square) return;
+
+        this.getPieceTargets(state.board, row, col).forEach(([toRow, toCol]) => {
+          moves.push({
+            from: this.toSquare(row, col),
+            to: this.toSquare(toRow, toCol),
+            piece: cell.piece!,
+            captured: state.board[toRow][toCol].piece,
+            notation: ''
+          });
+        });
+      });
+    });
+
+    return moves.filter(move => !this.isGeneralExposed(this.makeBoardMove(state.board, move), state.currentTurn));
+  }
+
+  // Squares a piece can move to, ignoring whether its own general is left in check
+  private getPieceTargets(board: XiangqiBoard, row: number, col: number): [number, number][] {
+    const { piece, color } = board[row][col];
+    const targets: [number, number][] = [];
+    const canLand = (r: number, c: number) => this.isOnXiangqiBoard(r, c) && board[r][c].color !== color;
+
+    switch (piece) {
+      case 'general':
+        ORTHOGONAL_STEPS.forEach(([dr, dc]) => {
+          if (this.isInPalace(row + dr, col + dc, color!) && canLand(row + dr, col + dc)) targets.push([row + dr, col + dc]);
+        });
+        break;
+      case 'advisor':
+        DIAGONAL_STEPS.forEach(([dr, dc]) => {
+          if (this.isInPalace(row + dr, col + dc, color!) && canLand(row + dr, col + dc)) targets.push([row + dr, col + dc]);
+        });
+        break;
+      case 'elephant':
+        // Two points diagonally, never across the river, and blocked by a piece on the point between
+        DIAGONAL_STEPS.forEach(([dr, dc]) => {
+          const [r, c] = [row + 2 * dr, col + 2 * dc];
+          if (canLand(r, c) && this.isOwnSide(r, color!) && !board[row + dr][col + dc].piece) targets.push([r, c]);
+        });
+        break;
+      case 'horse':
+        HORSE_MOVES.forEach(([dr, dc, legRow, legCol]) => {
+          if (canLand(row + dr, col + dc) && !board[row + legRow][col + legCol].piece) targets.push([row + dr, col + dc]);
+        });
+        break;
+      case 'chariot':
+      case 'cannon':
+        // Chariots move and capture like rooks; cannons move like rooks but capture by jumping one screen
+        ORTHOGONAL_STEPS.forEach(([dr, dc]) => {
+          let screened = false;
+
+          for (let r = row + dr, c = col + dc; this.isOnXiangqiBoard(r, c); r += dr, c += dc) {
+            const target = board[r][c];
+
+            if (!screened && !target.piece) {
+              targets.push([r, c]);
+              continue;
+            }
+            if (piece === 'cannon' && !screened) {
+              screened = true;
+              continue;
+            }
+            if (target.piece) {
+              if (target.color !== color) targets.push([r, c]);
+              break;
+            }
+          }
+        });
+        break;
+      case 'soldier': {
+        // Soldiers step forward, and also sideways once across the river
+        const forward = color === 'red' ? 1 : -1;
+        if (canLand(row + forward, col)) targets.push([row + forward, col]);
+        if (!this.isOwnSide(row, color!)) {
+          [-1, 1].forEach(dc => {
+            if (canLand(row, col + dc)) targets.push([row, col + dc]);
+          });
+        }
+        break;
+      }
+    }
+
+    return targets;
+  }
+
+  // Attacked by an enemy piece, or facing the enemy general on an open file (the flying general rule)
+  private isGeneralExposed(board: XiangqiBoard, color: XiangqiColor): boolean {
+    const general = this.findGeneral(board, color);
+    const enemyGeneral = this.findGeneral(board, this.getOpponent(color));
+    if (!general) return true;
+
+    const [row, col] = general;
+    if (enemyGeneral && enemyGeneral[1] === col) {
+      const [low, high] = [Math.min(row, enemyGeneral[0]), Math.max(row, enemyGeneral[0])];
+      let blocked = false;
+      for (let r = low + 1; r < high; r++) {
+        if (board[r][col].piece) blocked = true;
+      }
+      if (!blocked) return true;
+    }
+
+    return board.some((cells, r) =>
+      cells.some((cell, c) =>
+        cell.color !== undefined &&
+        cell.color !== color &&
+        this.getPieceTargets(board, r, c).some(([toRow, toCol]) => toRow === row && toCol === col)
+      )
+    );
+  }
+
+  private findGeneral(board: XiangqiBoard, color: XiangqiColor): [number, number] | undefined {
+    for (let row = 0; row < XIANGQI_RANKS; row++) {
+      for (let col = 0; col < XIANGQI_FILES; col++) {
+        if (board[row][col].piece === 'general' && board[row][col].color === color) return [row, col];
+      }
+    }
+    return undefined;
+  }
+
+  // Return a new board with the move played, sharing untouched rows
+  private makeBoardMove(board: XiangqiBoard, move: XiangqiMove): XiangqiBoard {
+    const [fromRow, fromCol] = this.parseSquare(move.from);
+    const [toRow, toCol] = this.parseSquare(move.to);
+    const newBoard = [...board];
+    const piece = board[fromRow][fromCol];
+
+    newBoard[fromRow] = [...board[fromRow]];
+    newBoard[fromRow][fromCol] = {};
+    if (toRow !== fromRow) newBoard[toRow] = [...board[toRow]];
+    newBoard[toRow][toCol] = piece;
+
+    return newBoard;
+  }
+
+  // A position seen for the third time ends the game. Perpetual check is forbidden: if only one
+  // side gave check with every move since the position last occurred, that side loses,
+  // otherwise the game is drawn
+  private getRepetitionResult(state: XiangqiGameState): GameOverResult | undefined {
+    const keys = state.positionKeys;
+    const last = keys.length - 1;
+    const occurrences = keys.reduce<number[]>((found, key, index) => (key === keys[last] ? [...found, index] : found), []);
+    if (occurrences.length < 3) return undefined;
+
+    const perpetualCheck: Record<XiangqiColor, boolean> = { red: true, black: true };
+    let mover = this.getOpponent(state.currentTurn);
+    for (let index = last; index > occurrences[occurrences.length - 2]; index--) {
+      if (!state.checks[index]) perpetualCheck[mover] = false;
+      mover = this.getOpponent(mover);
+    }
+
+    if (perpetualCheck.red !== perpetualCheck.black) {
+      return { isOver: true, winner: perpetualCheck.red ? 'black' : 'red', reason: 'perpetual-check' };
+    }
+
+    return { isOver: true, isDraw: true, reason: 'repetition' };
+  }
+
+  private getPositionKey(board: XiangqiBoard, turn: XiangqiColor): string {
+    const placement = board
+      .map(cells => cells.map(cell => {
+        if (!cell.piece) return '.';
+        const letter = WXF_LETTERS[cell.piece];
+        return cell.color === 'red' ? letter : letter.toLowerCase();
+      }).join(''))
+      .join('/');
+
+    return `${placement} ${turn === 'red' ? 'r' : 'b'}`;
+  }
+
+  // WXF notation: piece letter and file, then + (advance), - (retreat) or . (traverse), then the
+  // destination file for sideways and diagonal moves or the number of ranks moved otherwise.
+  // Files are counted 1-9 from each player's right; two identical pieces on one file are
+  // told apart by a leading + (front) or - (rear) instead of the file
+  private toWXF(board: XiangqiBoard, move: XiangqiMove): string {
+    const [fromRow, fromCol] = this.parseSquare(move.from);
+    const [toRow, toCol] = this.parseSquare(move.to);
+    const color = board[fromRow][fromCol].color!;
+    const forward = color === 'red' ? 1 : -1;
+    const file = (col: number) => (color === 'red' ? XIANGQI_FILES - col : col + 1);
+    const letter = WXF_LETTERS[move.piece];
+
+    let origin = `${letter}${file(fromCol)}`;
+    if (move.piece !== 'advisor' && move.piece !== 'elephant') {
+      const tandem = board
+        .map((cells, row) => row)
+        .filter(row => row !== fromRow && board[row][fromCol].piece === move.piece && board[row][fromCol].color === color);
+
+      if (tandem.length === 1) {
+        origin = `${(tandem[0] - fromRow) * forward < 0 ? '+' : '-'}${letter}`;
+      }
+    }
+
+    const advance = (toRow - fromRow) * forward;
+    const operator = advance > 0 ? '+' : advance < 0 ? '-' : '.';
+    const movesDiagonally = move.piece === 'advisor' || move.piece === 'elephant' || move.piece === 'horse';
+    const destination = operator === '.' || movesDiagonally ? file(toCol) : Math.abs(advance);
+
+    return `${origin}${operator}${destination}`;
+  }
+
+  private isInPalace(row: number, col: number, color: XiangqiColor): boolean {
+    const [low, high] = color === 'red' ? [0, 2] : [7, 9];
+    return col >= 3 && col <= 5 && row >= low && row <= high;
+  }
+
+  private isOwnSide(row: number, color: XiangqiColor): boolean {
+    return color === 'red' ? row <= 4 : row >= 5;
+  }
+
+  private getOpponent(color: XiangqiColor): XiangqiColor {
+    return color === 'red' ? 'black' : 'red';
+  }
+
+  private parseSquare(square: string): [number, number] {
+    return [parseInt(square.slice(1)), square.charCodeAt(0) - 'a'.charCodeAt(0)];
+  }
+
+  private toSquare(row: number, col: number): string {
+    return `${String.fromCharCode('a'.charCodeAt(0) + col)}${row}`;
+  }
+
+  private isOnXiangqiBoard(row: number, col: number): boolean {
+    return row >= 0 && row < XIANGQI_RANKS && col >= 0 && col < XIANGQI_FILES;
+  }
+}
+
+export const xiangqiRules = new XiangqiRules();
@@ -0,0 +1,50 @@
+import { predictionService } from './predictionService';
+import { gameLogicService } from './gameLogicService';
+import { GameType } from '../types';
+
+describe('predictionService', () => {
+  const connectFour = (columns: number[]) =>
+    columns.reduce(
+      (state, column) => gameLogicService.applyMove(GameType.CONNECT_FOUR, state, { column }),
+      gameLogicService.createInitialState(GameType.CONNECT_FOUR, ['p1', 'p2'])
+    );
+
+  it('shows a move straight away and keeps it until the server acknowledges it', () => {
+    const start = predictionService.create<GameType.CONNECT_FOUR>(connectFour([]));
+    const predicted = predictionService.predict(GameType.CONNECT_FOUR, start, { column: 3 }, 1)!;
+
+    expect(predicted.predicted).toEqual(connectFour([3]));
+    expect(predictionService.predict(GameType.CONNECT_FOUR, predicted, { column: 9 }, 2)).toBeUndefined();
+
+    // An update from before our move arrived still shows it on top
+    const stale = predictionService.reconcile(GameType.CONNECT_FOUR, predicted, connectFour([]));
+    expect(stale.prediction.predicted).toEqual(connectFour([3]));
+    expect(stale.prediction.pending).toHaveLength(1);
+
+    // Once acknowledged the server's state is all there is
+    const confirmed = connectFour([3, 4]);
+    const acknowledged = predictionService.reconcile(GameType.CONNECT_FOUR, predicted, confirmed, 1);
+    expect(acknowledged.prediction).toEqual({ confirmed, pending: [], predicted: confirmed });
+  });
+
+  it('rolls back a move that no longer fits the server state', () => {
+    const start = predictionService.create<GameType.CONNECT_FOUR>(connectFour([]));
+    const predicted = predictionService.predict(GameType.CONNECT_FOUR, start, { column: 3 }, 1)!;
+
+    // The server played for red on a timeout before our move got there
+    const serverState = connectFour([0]);
+    const { prediction, dropped } = predictionService.reconcile(GameType.CONNECT_FOUR, predicted, serverState);
+
+    expect(prediction.predicted).toBe(serverState);
+    expect(dropped.map(pending => pending.sequence)).toEqual([1]);
+  });
+
+  it('takes back a rejected move', () => {
+    const start = predictionService.create<GameType.CONNECT_FOUR>(connectFour([]));
+    const predicted = predictionService.predict(GameType.CONNECT_FOUR, start, { column: 3 }, 1)!;
+    const { prediction, dropped } = predictionService.reject(GameType.CONNECT_FOUR, predicted, 1);
+
+    expect(prediction.predicted).toBe(start.confirmed);
+    expect(dropped).toHaveLength(1);
+  });
+});
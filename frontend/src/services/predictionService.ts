@@ -0,0 +1,106 @@
+import { GameType } from '../types';
+import { getGameRules, GameMoveMap, GameStateMap } from './games';
+
+export interface PendingMove<TMove> {
+  // Number the move was sent with; the server echoes the last one it applied
+  sequence: number;
+  move: TMove;
+  // Side to move when it was played, so it isn't replayed for the opponent
+  side: string;
+}
+
+// What the server has confirmed, plus our own moves it hasn't applied yet
+export interface Prediction<TState, TMove> {
+  confirmed: TState;
+  pending: PendingMove<TMove>[];
+  // Confirmed state with the pending moves applied on top; this is what the board shows
+  predicted: TState;
+}
+
+export interface Reconciliation<TState, TMove> {
+  prediction: Prediction<TState, TMove>;
+  // Pending moves that no longer fit the server's state and were taken back
+  dropped: PendingMove<TMove>[];
+}
+
+type GamePrediction<T extends GameType> = Prediction<GameStateMap[T], GameMoveMap[T]>;
+
+// Client-side prediction: moves show straight away and are rebased onto every
+// authoritative state until the server acknowledges them
+class PredictionService {
+  create<T extends GameType>(state: GameStateMap[T]): GamePrediction<T> {
+    return { confirmed: state, pending: [], predicted: state };
+  }
+
+  // Apply our own move ahead of the server; undefined when it isn't legal here
+  predict<T extends GameType>(
+    gameType: T,
+    prediction: GamePrediction<T>,
+    move: GameMoveMap[T],
+    sequence: number
+  ): GamePrediction<T> | undefined {
+    const rules = getGameRules(gameType);
+    if (!rules.validateMove(prediction.predicted, move)) return undefined;
+
+    return {
+      ...prediction,
+      pending: [...prediction.pending, { sequence, move, side: rules.getSideToMove(prediction.predicted) }],
+      predicted: rules.applyMove(prediction.predicted, move)
+    };
+  }
+
+  // Take an authoritative state, forget the moves it already includes and replay the rest;
+  // moves that are no longer legal are rolled back
+  reconcile<T extends GameType>(
+    gameType: T,
+    prediction: GamePrediction<T>,
+    serverState: GameStateMap[T],
+    acknowledgedSequence?: number
+  ): Reconciliation<GameStateMap[T], GameMoveMap[T]> {
+    const unacknowledged = acknowledgedSequence === undefined
+      ? prediction.pending
+      : prediction.pending.filter(pending => pending.sequence > acknowledgedSequence);
+
+    return this.replay(gameType, serverState, unacknowledged);
+  }
+
+  // The server turned a move down: drop it and replay whatever was sent after it
+  reject<T extends GameType>(
+    gameType: T,
+    prediction: GamePrediction<T>,
+    sequence: number
+  ): Reconciliation<GameStateMap[T], GameMoveMap[T]> {
+    const rejected = prediction.pending.filter(pending => pending.sequence === sequence);
+    const { prediction: next, dropped } = this.replay(
+      gameType,
+      prediction.confirmed,
+      prediction.pending.filter(pending => pending.sequence !== sequence)
+    );
+
+    return { prediction: next, dropped: [...rejected, ...dropped] };
+  }
+
+  private replay<T extends GameType>(
+    gameType: T,
+    confirmed: GameStateMap[T],
+    moves: PendingMove<GameMoveMap[T]>[]
+  ): Reconciliation<GameStateMap[T], GameMoveMap[T]> {
+    const rules = getGameRules(gameType);
+    const pending: PendingMove<GameMoveMap[T]>[] = [];
+    const dropped: PendingMove<GameMoveMap[T]>[] = [];
+    let predicted = confirmed;
+
+    moves.forEach(entry => {
+      if (rules.getSideToMove(predicted) === entry.side && rules.validateMove(predicted, entry.move)) {
+        pending.push(entry);
+        predicted = rules.applyMove(predicted, entry.move);
+      } else {
+        dropped.push(entry);
+      }
+    });
+
+    return { prediction: { confirmed, pending, predicted }, dropped };
+  }
+}
+
+export const predictionService = new PredictionService();
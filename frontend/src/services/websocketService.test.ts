@@ -0,0 +1,305 @@
+import { wsService, SocketEvents, SocketRejectedError, SocketTimeoutError } from './websocketService';
+import { GameType } from '../types';
+
+// A stand-in socket the test drives by firing server events at it. Plain functions,
+// since mock implementations are reset before every test
+jest.mock('socket.io-client', () => {
+  const handlers = new Map<string, Set<Function>>();
+  const socket = {
+    connected: false,
+    emitted: [] as unknown[][],
+    // Acknowledgement callbacks of messages sent with a timeout, in send order
+    acks: [] as Function[],
+    on: (event: string, handler: Function) => {
+      if (!handlers.has(event)) handlers.set(event, new Set());
+      handlers.get(event)!.add(handler);
+      return socket;
+    },
+    off: (event: string, handler: Function) => {
+      handlers.get(event)?.delete(handler);
+      return socket;
+    },
+    emit: (...args: unknown[]) => {
+      socket.emitted.push(args);
+    },
+    timeout: () => ({
+      emit: (event: string, payload: unknown, ack: Function) => {
+        socket.emitted.push([event, payload]);
+        socket.acks.push(ack);
+      }
+    }),
+    reopened: 0,
+    connect: () => {
+      socket.reopened++;
+    },
+    disconnect: () => undefined,
+    io: { on: () => undefined },
+    fire: (event: string, ...args: unknown[]) => handlers.get(event)?.forEach(handler => handler(...args))
+  };
+
+  const created: unknown[] = [];
+  return {
+    __esModule: true,
+    default: () => {
+      created.push(socket);
+      return socket;
+    },
+    socket,
+    created
+  };
+});
+
+const { socket, created } = jest.requireMock('socket.io-client');
+
+// Only 'g-over' has ended
+jest.mock('./gameService', () => ({
+  gameService: {
+    getGame: (gameId: string) => Promise.resolve({ status: gameId === 'g-over' ? 'completed' : 'in_progress' })
+  }
+}));
+
+describe('wsService', () => {
+  const update = (seq: number) => ({ roomId: 'g1', seq, gameState: { seq } });
+  const received: number[] = [];
+
+  beforeAll(async () => {
+    const connected = wsService.connect();
+    expect(wsService.getConnectionState()).toBe('connecting');
+    socket.connected = true;
+    socket.fire(SocketEvents.CONNECT);
+    await connected;
+
+    wsService.on(SocketEvents.GAME_UPDATE, (data) => {
+      if (data.seq !== undefined) received.push(data.seq);
+    });
+  });
+
+  beforeEach(() => {
+    socket.emitted = [];
+    socket.acks = [];
+  });
+
+  const goOffline = () => {
+    socket.connected = false;
+    socket.fire(SocketEvents.DISCONNECT, 'transport close');
+  };
+
+  const goOnline = () => {
+    socket.connected = true;
+    socket.fire(SocketEvents.CONNECT);
+  };
+
+  it('joins only when its own room answers', async () => {
+    let joined = false;
+    const joining = wsService.joinRoom('g1').then(() => {
+      joined = true;
+    });
+
+    socket.fire(SocketEvents.ROOM_JOINED, { roomId: 'g2', seq: 9 });
+    await Promise.resolve();
+    expect(joined).toBe(false);
+
+    socket.fire(SocketEvents.ROOM_JOINED, { roomId: 'g1', seq: 3 });
+    await joining;
+    expect(joined).toBe(true);
+  });
+
+  it('drops repeated events and asks for the ones it missed', () => {
+    socket.fire(SocketEvents.GAME_UPDATE, update(4));
+    socket.fire(SocketEvents.GAME_UPDATE, update(4));
+    socket.fire(SocketEvents.GAME_UPDATE, update(6));
+
+    expect(received).toEqual([4]);
+    expect(socket.emitted).toContainEqual([SocketEvents.RESUME_ROOM, { roomId: 'g1', lastSeq: 4 }]);
+
+    socket.fire(SocketEvents.ROOM_RESUMED, {
+      roomId: 'g1',
+      events: [5, 6].map(seq => ({ event: SocketEvents.GAME_UPDATE, data: update(seq) }))
+    });
+    expect(received).toEqual([4, 5, 6]);
+  });
+
+  it('resumes rooms after reconnecting and accepts a full resync', () => {
+    goOffline();
+    expect(wsService.getConnectionState()).toBe('reconnecting');
+
+    goOnline();
+    expect(wsService.getConnectionState()).toBe('online');
+    expect(socket.emitted).toContainEqual([SocketEvents.RESUME_ROOM, { roomId: 'g1', lastSeq: 6 }]);
+
+    // The server no longer has events 7-19, so it sends the room as it is now
+    socket.fire(SocketEvents.ROOM_RESYNC, { roomId: 'g1', seq: 20, gameState: {} });
+    socket.fire(SocketEvents.GAME_UPDATE, update(21));
+    expect(received).toEqual([4, 5, 6, 21]);
+  });
+
+  it('checks payloads against the event contract before listeners see them', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const found: Date[] = [];
+    wsService.on(SocketEvents.GAME_FOUND, (game) => {
+      if (game.startedAt) found.push(game.startedAt);
+    });
+
+    socket.fire(SocketEvents.GAME_UPDATE, { roomId: 'g1', seq: '22' });
+    expect(received).toEqual([4, 5, 6, 21]);
+    expect(error).toHaveBeenCalled();
+
+    socket.fire(SocketEvents.GAME_FOUND, {
+      id: 'g2',
+      type: 'caro',
+      status: 'waiting',
+      players: [],
+      startedAt: '2024-01-01T00:00:00.000Z'
+    });
+    expect(found).toEqual([new Date('2024-01-01T00:00:00.000Z')]);
+
+    wsService.off(SocketEvents.GAME_FOUND);
+    error.mockRestore();
+  });
+
+  it('holds live events until the resume they wait on is answered', () => {
+    socket.fire(SocketEvents.GAME_UPDATE, update(23));
+    socket.fire(SocketEvents.GAME_UPDATE, update(24));
+    expect(received).toEqual([4, 5, 6, 21]);
+
+    // The reply was put together before event 24 went out
+    socket.fire(SocketEvents.ROOM_RESUMED, {
+      roomId: 'g1',
+      events: [22, 23].map(seq => ({ event: SocketEvents.GAME_UPDATE, data: update(seq) }))
+    });
+    expect(received).toEqual([4, 5, 6, 21, 22, 23, 24]);
+  });
+
+  it('waits for a dropped connection to come back rather than opening another', async () => {
+    goOffline();
+    let connected = false;
+    const connecting = wsService.connect().then(() => {
+      connected = true;
+    });
+
+    await Promise.resolve();
+    expect(connected).toBe(false);
+
+    goOnline();
+    await connecting;
+    expect(connected).toBe(true);
+  });
+
+  it('opens the same socket again once the server has closed it', async () => {
+    socket.connected = false;
+    socket.fire(SocketEvents.DISCONNECT, 'io server disconnect');
+    expect(wsService.getConnectionState()).toBe('offline');
+
+    const connecting = wsService.connect();
+    expect(wsService.getConnectionState()).toBe('connecting');
+    expect(socket.reopened).toBe(1);
+    expect(created).toHaveLength(1);
+
+    goOnline();
+    await connecting;
+    expect(wsService.getConnectionState()).toBe('online');
+  });
+
+  it('holds moves made offline and sends them in order on reconnect', async () => {
+    goOffline();
+    const first = wsService.sendMove('g1', { column: 1 }, 1);
+    const second = wsService.sendMove('g1', { column: 2 }, 2);
+    expect(socket.emitted).toEqual([]);
+
+    goOnline();
+    const moves = socket.emitted.filter(([event]: unknown[]) => event === SocketEvents.PLAYER_MOVE);
+    expect(moves.map(([, payload]: any[]) => payload.sequence)).toEqual([1, 2]);
+
+    socket.acks.forEach((ack: Function) => ack(null, { ok: true }));
+    await expect(Promise.all([first, second])).resolves.toEqual([{ ok: true }, { ok: true }]);
+  });
+
+  it('retries with the same idempotency key and then times out', async () => {
+    const sent = wsService.sendMove('g1', { column: 3 }, 3);
+
+    socket.acks[0](new Error('timeout'));
+    socket.acks[1](new Error('timeout'));
+    socket.acks[2](new Error('timeout'));
+
+    const keys = socket.emitted.map(([, payload]: any[]) => payload.idempotencyKey);
+    expect(keys).toHaveLength(3);
+    expect(new Set(keys).size).toBe(1);
+    await expect(sent).rejects.toBeInstanceOf(SocketTimeoutError);
+  });
+
+  it('surfaces a move the server turns down', async () => {
+    const sent = wsService.sendMove('g1', { column: 9 }, 4);
+    socket.acks[0](null, { error: 'Illegal move' });
+
+    await expect(sent).rejects.toBeInstanceOf(SocketRejectedError);
+    expect(localStorage.getItem('ws-outbox')).toBeNull();
+  });
+
+  it('sends chat written while reconnecting once the connection is back', () => {
+    goOffline();
+    wsService.sendChatMessage('g1', 'brb');
+    goOnline();
+
+    expect(socket.emitted).toContainEqual([
+      SocketEvents.CHAT_MESSAGE,
+      expect.objectContaining({ roomId: 'g1', message: 'brb' })
+    ]);
+  });
+
+  it('drops the unsent moves of a game once it is over', async () => {
+    socket.fire(SocketEvents.ROOM_RESYNC, { roomId: 'g1', seq: 30, gameState: {} });
+    const sent = wsService.sendMove('g1', { column: 4 }, 5);
+
+    socket.fire(SocketEvents.GAME_END, { roomId: 'g1', seq: 31, winner: 'u1', gameState: {} });
+    await expect(sent).rejects.toThrow('The game is over');
+    expect(localStorage.getItem('ws-outbox')).toBeNull();
+    expect(wsService.getMoveSequence('g1')).toBe(0);
+  });
+
+  it('remembers the last move sequence sent to each game across reloads', async () => {
+    expect(wsService.getMoveSequence('g9')).toBe(0);
+
+    const sent = wsService.sendMove('g9', { column: 0 }, 7);
+    socket.acks[0](null, { ok: true });
+    await sent;
+    expect(wsService.getMoveSequence('g9')).toBe(7);
+
+    jest.isolateModules(() => {
+      const { wsService: reloaded } = jest.requireActual('./websocketService');
+      expect(reloaded.getMoveSequence('g9')).toBe(7);
+    });
+  });
+
+  it('resends moves restored from storage only to games still being played', async () => {
+    localStorage.setItem('ws-outbox', JSON.stringify(['g-over', 'g-live'].map((gameId, i) => ({
+      id: `restored-${i}`,
+      event: SocketEvents.PLAYER_MOVE,
+      payload: { gameId, move: { column: i }, sequence: 1, timestamp: 0 },
+      attempts: 1
+    }))));
+
+    let reloaded: typeof wsService;
+    jest.isolateModules(() => {
+      reloaded = jest.requireActual('./websocketService').wsService;
+    });
+
+    // Emitted before there is a socket, so it waits for the connection
+    reloaded!.emit(SocketEvents.FIND_GAME, { gameType: GameType.CARO });
+    const connected = reloaded!.connect();
+    expect(socket.emitted).toEqual([]);
+
+    goOnline();
+    await connected;
+    // Made while the restored moves are being checked, so it goes out after them
+    const later = reloaded!.sendMove('g-live', { column: 9 }, 2);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(socket.emitted).toContainEqual([SocketEvents.FIND_GAME, { gameType: GameType.CARO }]);
+    const moves = socket.emitted.filter(([event]: unknown[]) => event === SocketEvents.PLAYER_MOVE);
+    expect(moves.map(([, payload]: any[]) => payload.move.column)).toEqual([1, 9]);
+    expect(JSON.parse(localStorage.getItem('ws-outbox')!)).toHaveLength(2);
+
+    socket.acks.forEach((ack: Function) => ack(null, { ok: true }));
+    await expect(later).resolves.toEqual({ ok: true });
+  });
+});
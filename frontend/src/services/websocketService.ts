@@ -1,41 +1,72 @@
 import io, { Socket } from 'socket.io-client';
-import { Game, GameMove } from '../types';
-
-export enum SocketEvents {
-  // Connection events
-  CONNECT = 'connect',
-  DISCONNECT = 'disconnect',
-  ERROR = 'error',
-  
-  // Room events
-  JOIN_ROOM = 'join-room',
-  LEAVE_ROOM = 'leave-room',
-  ROOM_JOINED = 'room-joined',
-  ROOM_LEFT = 'room-left',
-  
-  // Game events
-  FIND_GAME = 'find-game',
-  GAME_FOUND = 'game-found',
-  GAME_START = 'game-start',
-  GAME_UPDATE = 'game-update',
-  GAME_END = 'game-end',
-  
-  // Player events
-  PLAYER_JOIN = 'player-join',
-  PLAYER_LEAVE = 'player-leave',
-  PLAYER_READY = 'player-ready',
-  PLAYER_MOVE = 'player-move',
-  PLAYER_TURN = 'player-turn',
-  
-  // Chat events
-  CHAT_MESSAGE = 'chat-message',
-  CHAT_TYPING = 'chat-typing',
-  
-  // Spectator events
-  SPECTATOR_JOIN = 'spectator-join',
-  SPECTATOR_LEAVE = 'spectator-leave',
+import {
+  SocketEvents,
+  SocketAck,
+  RoomEventMeta,
+  AckedClientEvent,
+  ClientEvent,
+  ClientEventPayload,
+  ClientToServerEvents,
+  ServerEvent,
+  ServerEventPayload,
+  ServerToClientEvents,
+  isServerEvent,
+  parseServerEvent
+} from '../types/socket';
+import { GameStatus } from '../types';
+import { gameService } from './gameService';
+
+export { SocketEvents } from '../types/socket';
+export type { RoomEventMeta, RoomResumed, RoomResync, SocketAck } from '../types/socket';
+
+export type ConnectionState = 'connecting' | 'online' | 'reconnecting' | 'offline';
+
+// No acknowledgement after every attempt
+export class SocketTimeoutError extends Error {
+  constructor(public event: string, public attempts: number) {
+    super(`No reply to ${event} after ${attempts} attempts`);
+    this.name = 'SocketTimeoutError';
+    Object.setPrototypeOf(this, SocketTimeoutError.prototype);
+  }
 }
 
+// The server acknowledged the message with an error
+export class SocketRejectedError extends Error {
+  constructor(public event: string, reason: string) {
+    super(reason);
+    this.name = 'SocketRejectedError';
+    Object.setPrototypeOf(this, SocketRejectedError.prototype);
+  }
+}
+
+// A message waiting for its acknowledgement. The id doubles as an idempotency key,
+// so the server applies a message once however many times it is resent
+interface OutboxEntry {
+  id: string;
+  event: AckedClientEvent;
+  payload: ClientEventPayload<AckedClientEvent>;
+  attempts: number;
+  resolve?: (ack: SocketAck) => void;
+  reject?: (error: Error) => void;
+}
+
+// Replies about a room itself rather than events in it, so they are not put in sequence
+const ROOM_REPLIES: ServerEvent[] = [SocketEvents.ROOM_JOINED, SocketEvents.ROOM_RESUMED, SocketEvents.ROOM_RESYNC];
+// Events the service handles itself, so it listens for them whether or not anyone else does
+const INTERNAL_EVENTS: ServerEvent[] = [...ROOM_REPLIES, SocketEvents.GAME_END];
+
+const ACK_TIMEOUT = 5000;
+const MAX_SEND_ATTEMPTS = 3;
+// Unacknowledged messages are kept here so a reload mid-blip doesn't lose them
+const OUTBOX_STORAGE_KEY = 'ws-outbox';
+// Last sequence our moves to each game were sent with, so numbering survives a reload
+const MOVE_SEQUENCES_STORAGE_KEY = 'ws-move-sequences';
+
+const createMessageId = (): string =>
+  typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
 interface WebSocketConfig {
   url: string;
   autoConnect?: boolean;
@@ -45,10 +76,31 @@ interface WebSocketConfig {
 }
 
 class WebSocketService {
-  private socket: Socket | null = null;
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
   private config: WebSocketConfig;
-  private listeners: Map<string, Set<Function>> = new Map();
-  private rooms: Set<string> = new Set();
+  private listeners: Map<ServerEvent, Set<Function>> = new Map();
+  // Last event sequence seen per joined room
+  private rooms: Map<string, number> = new Map();
+  // Rooms waiting on a resume reply; their live events are held off until it comes
+  private resuming: Set<string> = new Set();
+  // Raw live events held per resuming room, in arrival order
+  private held: Map<string, { event: ServerEvent; payload: unknown }[]> = new Map();
+  // Rooms waiting on their join reply
+  private joining: Map<string, (seq: number) => void> = new Map();
+  // One socket handler per event, so payloads are checked and room events put in order
+  // before listeners see them
+  private dispatchers: Map<ServerEvent, (data: unknown) => void> = new Map();
+  // Messages sent but not yet acknowledged, oldest first
+  private outbox: OutboxEntry[] = [];
+  // Where checking the outbox restored from storage for games that ended has got to;
+  // nothing is sent until it is done, so restored moves still go out first
+  private restoredCheck: 'pending' | 'running' | 'done' = 'done';
+  // Events emitted before there was a socket, sent on the first connect
+  private unsent: ((socket: Socket<ServerToClientEvents, ClientToServerEvents>) => void)[] = [];
+  // Highest sequence sent per game
+  private moveSequences: Record<string, number> = {};
+  private connectionState: ConnectionState = 'offline';
+  private stateListeners: Set<(state: ConnectionState) => void> = new Set();
 
   constructor(config: WebSocketConfig) {
     this.config = {
@@ -58,16 +110,31 @@ class WebSocketService {
       reconnectionDelay: 1000,
       ...config
     };
+    this.outbox = this.loadOutbox();
+    if (this.outbox.length > 0) this.restoredCheck = 'pending';
+    this.moveSequences = this.loadMoveSequences();
   }
 
-  // Initialize connection
+  // Initialize connection. Safe to call from anywhere: while a connection is on its way,
+  // or Socket.IO is bringing a dropped one back, this waits for it instead of opening another
   connect(): Promise<void> {
+    if (this.socket && !this.socket.connected) {
+      // Socket.IO gave up on the connection, or the server closed it: open the same socket again
+      if (this.connectionState === 'offline') {
+        this.setConnectionState('connecting');
+        this.socket.auth = { token: localStorage.getItem('token') };
+        this.socket.connect();
+      }
+      return this.whenOnline();
+    }
+
     return new Promise((resolve, reject) => {
       if (this.socket?.connected) {
         resolve();
         return;
       }
 
+      this.setConnectionState('connecting');
       this.socket = io(this.config.url, {
         transports: ['websocket'],
         reconnection: this.config.reconnection,
@@ -80,12 +147,30 @@ class WebSocketService {
 
       this.socket.on(SocketEvents.CONNECT, () => {
         console.log('WebSocket connected');
-        this.rejoinRooms();
+        this.setConnectionState('online');
+        this.resumeRooms();
+        this.flushOutbox();
+        this.unsent.splice(0).forEach(send => send(this.socket!));
         resolve();
       });
 
       this.socket.on(SocketEvents.DISCONNECT, (reason) => {
         console.log('WebSocket disconnected:', reason);
+        // Socket.IO reconnects by itself unless we or the server closed the connection
+        const willReconnect = reason !== 'io client disconnect' && reason !== 'io server disconnect';
+        this.resuming.clear();
+        this.held.clear();
+        this.setConnectionState(willReconnect ? 'reconnecting' : 'offline');
+      });
+
+      this.socket.io.on('reconnect_attempt', () => this.setConnectionState('reconnecting'));
+      this.socket.io.on('reconnect_failed', () => this.setConnectionState('offline'));
+
+      this.socket.on('connect_error', (error) => {
+        if (this.connectionState === 'connecting') {
+          this.setConnectionState(this.config.reconnection ? 'reconnecting' : 'offline');
+          reject(error);
+        }
       });
 
       this.socket.on(SocketEvents.ERROR, (error) => {
@@ -102,101 +187,129 @@ class WebSocketService {
   disconnect(): void {
     if (this.socket) {
       this.rooms.clear();
+      this.joining.clear();
+      this.resuming.clear();
+      this.held.clear();
+      // Leaving on purpose gives up on anything unsent
+      this.outbox.forEach(entry => entry.reject?.(new Error('Socket disconnected')));
+      this.outbox = [];
+      this.saveOutbox();
+      this.unsent = [];
       this.socket.disconnect();
       this.socket = null;
+      this.setConnectionState('offline');
     }
   }
 
-  // Join a game room
+  // Join a game room; the server answers with the room id and its latest event sequence
   joinRoom(roomId: string): Promise<void> {
     return new Promise((resolve, reject) => {
-      if (!this.socket?.connected) {
+      const socket = this.socket;
+      if (!socket?.connected) {
         reject(new Error('Socket not connected'));
         return;
       }
 
-      this.socket.emit(SocketEvents.JOIN_ROOM, roomId);
-      
+      // Other rooms may be joined at the same time, so replies are matched by room
       const timeout = setTimeout(() => {
+        this.joining.delete(roomId);
         reject(new Error('Join room timeout'));
       }, 5000);
 
-      this.socket.once(SocketEvents.ROOM_JOINED, (room: string) => {
+      this.joining.set(roomId, (seq) => {
         clearTimeout(timeout);
-        this.rooms.add(room);
+        this.rooms.set(roomId, seq);
         resolve();
       });
+      socket.emit(SocketEvents.JOIN_ROOM, roomId);
     });
   }
 
   // Leave a game room
   leaveRoom(roomId: string): void {
+    this.rooms.delete(roomId);
+    this.held.delete(roomId);
     if (!this.socket?.connected) return;
     
     this.socket.emit(SocketEvents.LEAVE_ROOM, roomId);
-    this.rooms.delete(roomId);
   }
 
-  // Send game move
-  sendMove(gameId: string, move: any): void {
-    if (!this.socket?.connected) {
-      throw new Error('Socket not connected');
+  // Send game move; the sequence number comes back on the update that applies it.
+  // Moves made offline wait in the outbox and go out in order on reconnect
+  sendMove(gameId: string, move: unknown, sequence?: number): Promise<SocketAck> {
+    if (sequence !== undefined && sequence > this.getMoveSequence(gameId)) {
+      this.moveSequences = { ...this.moveSequences, [gameId]: sequence };
+      localStorage.setItem(MOVE_SEQUENCES_STORAGE_KEY, JSON.stringify(this.moveSequences));
     }
 
-    this.socket.emit(SocketEvents.PLAYER_MOVE, {
+    return this.send(SocketEvents.PLAYER_MOVE, {
       gameId,
       move,
+      sequence,
       timestamp: Date.now()
     });
   }
 
-  // Send chat message
-  sendChatMessage(roomId: string, message: string): void {
-    if (!this.socket?.connected) return;
+  // Sequence of the last move sent to a game, 0 before the first; new moves are numbered on from it
+  getMoveSequence(gameId: string): number {
+    return this.moveSequences[gameId] ?? 0;
+  }
+
+  // Deliver a message at least once: it is resent until the server acknowledges it,
+  // then settles with the acknowledgement or a SocketTimeoutError/SocketRejectedError
+  send<E extends AckedClientEvent>(event: E, payload: ClientEventPayload<E>): Promise<SocketAck> {
+    return new Promise((resolve, reject) => {
+      const entry: OutboxEntry = { id: createMessageId(), event, payload, attempts: 0, resolve, reject };
+
+      this.outbox.push(entry);
+      this.saveOutbox();
+      this.transmit(entry);
+    });
+  }
 
-    this.socket.emit(SocketEvents.CHAT_MESSAGE, {
+  // Send chat message; like any emit it waits out a dropped connection
+  sendChatMessage(roomId: string, message: string): void {
+    this.emit(SocketEvents.CHAT_MESSAGE, {
       roomId,
       message,
       timestamp: Date.now()
     });
   }
 
-  // Listen to an event
-  on<T = any>(event: string, callback: (data: T) => void): void {
+  // Listen to an event; listeners only see payloads that match the event's schema
+  on<E extends ServerEvent>(event: E, callback: (data: ServerEventPayload<E>) => void): void {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, new Set());
+      this.attach(event);
     }
     this.listeners.get(event)!.add(callback);
-
-    if (this.socket) {
-      this.socket.on(event, callback);
-    }
   }
 
   // Remove event listener
-  off(event: string, callback?: Function): void {
-    if (!callback) {
+  off<E extends ServerEvent>(event: E, callback?: (data: ServerEventPayload<E>) => void): void {
+    const callbacks = this.listeners.get(event);
+    if (!callbacks) return;
+
+    if (callback) {
+      callbacks.delete(callback);
+    }
+    if (!callback || callbacks.size === 0) {
       this.listeners.delete(event);
-      if (this.socket) {
-        this.socket.removeAllListeners(event);
-      }
-    } else {
-      const callbacks = this.listeners.get(event);
-      if (callbacks) {
-        callbacks.delete(callback);
-        if (this.socket) {
-          this.socket.off(event, callback as any);
-        }
-      }
+      this.detach(event);
     }
   }
 
-  // Emit an event
-  emit(event: string, data?: any): void {
-    if (!this.socket?.connected) {
-      throw new Error('Socket not connected');
+  // Emit an event without waiting for a reply. Socket.IO buffers it while reconnecting;
+  // before the first connect it waits here
+  emit<E extends Exclude<ClientEvent, AckedClientEvent>>(event: E, data: ClientEventPayload<E>): void {
+    const send = (socket: Socket<ServerToClientEvents, ClientToServerEvents>) =>
+      socket.emit(event, ...([data] as Parameters<ClientToServerEvents[E]>));
+
+    if (this.socket) {
+      send(this.socket);
+    } else {
+      this.unsent.push(send);
     }
-    this.socket.emit(event, data);
   }
 
   // Check connection status
@@ -204,24 +317,240 @@ class WebSocketService {
     return this.socket?.connected || false;
   }
 
+  getConnectionState = (): ConnectionState => this.connectionState;
+
+  // Subscribe to connection changes; returns the unsubscribe function
+  onConnectionStateChange = (listener: (state: ConnectionState) => void): (() => void) => {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  };
+
+  // Ask the server for a room's events since the last one we saw. It replies with
+  // ROOM_RESUMED, or with ROOM_RESYNC when it no longer has them all
+  resumeRoom(roomId: string): void {
+    if (!this.socket?.connected || !this.rooms.has(roomId) || this.resuming.has(roomId)) return;
+
+    this.resuming.add(roomId);
+    this.socket.emit(SocketEvents.RESUME_ROOM, { roomId, lastSeq: this.rooms.get(roomId)! });
+  }
+
   // Private methods
+  private whenOnline(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const unsubscribe = this.onConnectionStateChange(state => {
+        if (state === 'online') {
+          unsubscribe();
+          resolve();
+        } else if (state === 'offline') {
+          unsubscribe();
+          reject(new Error('Socket not connected'));
+        }
+      });
+    });
+  }
+
   private setupGlobalListeners(): void {
     if (!this.socket) return;
 
-    // Re-attach listeners after reconnection
-    this.listeners.forEach((callbacks, event) => {
-      callbacks.forEach(callback => {
-        this.socket!.on(event, callback as any);
-      });
+    // Attach the events the service handles itself, then listeners registered before connecting
+    INTERNAL_EVENTS.forEach(event => this.socket!.on(event, this.dispatch(event)));
+    this.listeners.forEach((_, event) => this.attach(event));
+  }
+
+  private attach(event: ServerEvent): void {
+    if (!INTERNAL_EVENTS.includes(event)) this.socket?.on(event, this.dispatch(event));
+  }
+
+  private detach(event: ServerEvent): void {
+    if (!INTERNAL_EVENTS.includes(event)) this.socket?.off(event, this.dispatch(event));
+  }
+
+  private transmit(entry: OutboxEntry): void {
+    if (!this.socket?.connected || this.restoredCheck !== 'done') return;
+
+    entry.attempts++;
+    this.socket.timeout(ACK_TIMEOUT).emit(
+      entry.event,
+      { ...entry.payload, idempotencyKey: entry.id },
+      (err: Error | null, ack?: SocketAck) => {
+        // Settled already, e.g. by the reply to an earlier attempt
+        if (!this.outbox.includes(entry)) return;
+
+        if (err) {
+          // Lost with the connection: the outbox is flushed again on reconnect
+          if (!this.socket?.connected) return;
+
+          if (entry.attempts >= MAX_SEND_ATTEMPTS) {
+            this.settle(entry, new SocketTimeoutError(entry.event, entry.attempts));
+          } else {
+            this.transmit(entry);
+          }
+          return;
+        }
+
+        this.settle(entry, ack?.error ? new SocketRejectedError(entry.event, ack.error) : undefined, ack);
+      }
+    );
+  }
+
+  private settle(entry: OutboxEntry, error?: Error, ack: SocketAck = {}): void {
+    this.outbox = this.outbox.filter(queued => queued !== entry);
+    this.saveOutbox();
+
+    if (error) {
+      entry.reject?.(error);
+    } else {
+      entry.resolve?.(ack);
+    }
+  }
+
+  // Resend everything unacknowledged, oldest first, with a fresh set of attempts
+  private async flushOutbox(): Promise<void> {
+    // The check flushes the outbox itself once it is done
+    if (this.restoredCheck === 'running') return;
+    if (this.restoredCheck === 'pending') {
+      this.restoredCheck = 'running';
+      await this.dropEndedGames();
+      this.restoredCheck = 'done';
+    }
+
+    this.outbox.forEach(entry => {
+      entry.attempts = 0;
+      this.transmit(entry);
     });
   }
 
-  private rejoinRooms(): void {
-    // Rejoin rooms after reconnection
-    this.rooms.forEach(roomId => {
-      this.socket?.emit(SocketEvents.JOIN_ROOM, roomId);
+  // A reload can leave moves behind for games that ended since; those are not resent.
+  // Games that can't be looked up are left for the server to judge
+  private async dropEndedGames(): Promise<void> {
+    const gameIds = Array.from(new Set(this.outbox.map(entry => entry.payload.gameId)));
+    const statuses = await Promise.all(gameIds.map(gameId =>
+      gameService.getGame(gameId).then(game => game.status, () => GameStatus.IN_PROGRESS)
+    ));
+
+    gameIds.forEach((gameId, i) => {
+      if (statuses[i] !== GameStatus.IN_PROGRESS) this.endGame(gameId);
     });
   }
+
+  // Nothing more goes to a game once it is over: its unsent moves are dropped and its
+  // move numbering forgotten
+  private endGame(gameId: string): void {
+    this.outbox
+      .filter(entry => entry.payload.gameId === gameId)
+      .forEach(entry => this.settle(entry, new Error('The game is over')));
+
+    const { [gameId]: _ended, ...moveSequences } = this.moveSequences;
+    this.moveSequences = moveSequences;
+    localStorage.setItem(MOVE_SEQUENCES_STORAGE_KEY, JSON.stringify(this.moveSequences));
+  }
+
+  private loadOutbox(): OutboxEntry[] {
+    try {
+      return JSON.parse(localStorage.getItem(OUTBOX_STORAGE_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  private loadMoveSequences(): Record<string, number> {
+    try {
+      return JSON.parse(localStorage.getItem(MOVE_SEQUENCES_STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private saveOutbox(): void {
+    const stored = this.outbox.map(({ id, event, payload, attempts }) => ({ id, event, payload, attempts }));
+    if (stored.length > 0) {
+      localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(stored));
+    } else {
+      localStorage.removeItem(OUTBOX_STORAGE_KEY);
+    }
+  }
+
+  private resumeRooms(): void {
+    // Pick up every room where we left off after reconnection
+    this.rooms.forEach((_, roomId) => this.resumeRoom(roomId));
+  }
+
+  private dispatch(event: ServerEvent): (data: unknown) => void {
+    if (!this.dispatchers.has(event)) {
+      this.dispatchers.set(event, (data: unknown) => this.receive(event, data));
+    }
+    return this.dispatchers.get(event)!;
+  }
+
+  private receive(event: ServerEvent, payload: unknown): void {
+    const data = parseServerEvent(event, payload);
+    if (data === undefined) return;
+
+    if (!ROOM_REPLIES.includes(event) && this.isRoomEvent(data) && this.rooms.has(data.roomId)) {
+      const lastSeq = this.rooms.get(data.roomId)!;
+
+      // Already seen, e.g. delivered live and again in a resume
+      if (data.seq <= lastSeq) return;
+
+      // Something went missing in between: fetch it. Until the reply comes, live events
+      // are held and then replayed after the missed ones
+      if (data.seq > lastSeq + 1) this.resumeRoom(data.roomId);
+      if (this.resuming.has(data.roomId)) {
+        this.held.set(data.roomId, [...(this.held.get(data.roomId) || []), { event, payload }]);
+        return;
+      }
+
+      this.rooms.set(data.roomId, data.seq);
+    }
+
+    this.handle(event, data);
+    this.listeners.get(event)?.forEach(callback => callback(data));
+  }
+
+  // Bookkeeping for the room events the service answers itself
+  private handle(event: ServerEvent, data: ServerEventPayload<ServerEvent>): void {
+    if (event === SocketEvents.ROOM_JOINED) {
+      const { roomId, seq } = data as ServerEventPayload<SocketEvents.ROOM_JOINED>;
+      this.joining.get(roomId)?.(seq);
+      this.joining.delete(roomId);
+    } else if (event === SocketEvents.ROOM_RESUMED) {
+      const { roomId, events } = data as ServerEventPayload<SocketEvents.ROOM_RESUMED>;
+      this.resuming.delete(roomId);
+      events.forEach(({ event: missed, data: missedData }) => {
+        if (isServerEvent(missed)) this.receive(missed, missedData);
+      });
+      this.releaseHeld(roomId);
+    } else if (event === SocketEvents.ROOM_RESYNC) {
+      // Listeners get the resync too; here we only pick the sequence up from it
+      const { roomId, seq } = data as ServerEventPayload<SocketEvents.ROOM_RESYNC>;
+      this.resuming.delete(roomId);
+      if (this.rooms.has(roomId)) this.rooms.set(roomId, seq);
+      this.releaseHeld(roomId);
+    } else if (event === SocketEvents.GAME_END) {
+      const { roomId } = data as ServerEventPayload<SocketEvents.GAME_END>;
+      if (roomId) this.endGame(roomId);
+    }
+  }
+
+  // Replay the live events held during a resume; any it already covered are dropped as repeats
+  private releaseHeld(roomId: string): void {
+    const held = this.held.get(roomId) || [];
+    this.held.delete(roomId);
+    held.forEach(({ event, payload }) => this.receive(event, payload));
+  }
+
+  private isRoomEvent(data: object): data is RoomEventMeta {
+    return 'roomId' in data && typeof data.roomId === 'string' && 'seq' in data && typeof data.seq === 'number';
+  }
+
+  private setConnectionState(state: ConnectionState): void {
+    if (state === this.connectionState) return;
+
+    this.connectionState = state;
+    this.stateListeners.forEach(listener => listener(state));
+  }
 }
 
 // Create singleton instance
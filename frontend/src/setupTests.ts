@@ -3,3 +3,7 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+import { TextEncoder } from 'util';
+
+// jsdom doesn't provide TextEncoder, which hashing the UNO seed needs
+Object.assign(global, { TextEncoder });
@@ -36,7 +36,10 @@ export interface Achievement {
 export enum GameType {
   UNO = 'uno',
   CHESS = 'chess',
-  CHECKERS = 'checkers'
+  CHECKERS = 'checkers',
+  CONNECT_FOUR = 'connect-four',
+  CARO = 'caro',
+  XIANGQI = 'xiangqi'
 }
 
 export enum GameStatus {
@@ -56,6 +59,48 @@ export interface Game {
   startedAt?: Date;
   endedAt?: Date;
   timeLimit?: number;
+  timeControl?: TimeControl;
+  clock?: ClockState;
+  houseRules?: UnoHouseRules;
+}
+
+// Time Control Types
+export type ClockMode =
+  | 'fischer'         // increment added after every move; sudden death with no increment
+  | 'bronstein'       // time used on a move is given back, up to the delay
+  | 'simple-delay'    // the clock waits out the delay before it starts running
+  | 'per-move'        // the full allowance again for every move
+  | 'correspondence'; // per-move allowance measured in days
+
+export type TimeControlPreset = 'bullet' | 'blitz' | 'rapid' | 'classical' | 'correspondence';
+
+export interface TimeControl {
+  mode: ClockMode;
+  // Starting time per player, or the allowance per move, in ms
+  initial: number;
+  increment?: number;
+  delay?: number;
+}
+
+// Clocks as the server last measured them
+export interface ClockState {
+  // Time left per player, in ms
+  remaining: Record<string, number>;
+  // Player whose clock is running
+  running?: string;
+  // Time already spent on the current move, in ms
+  moveTime?: number;
+  // Server time of the reading, in ms since the epoch
+  serverTime: number;
+}
+
+export interface UnoHouseRules {
+  stackDrawTwo: boolean;   // +2 may be played on a pending +2
+  stackDrawFour: boolean;  // +4 may be played on a pending +4
+  jumpIn: boolean;         // identical card may be played out of turn
+  sevenZero: boolean;      // 7 swaps hands, 0 rotates all hands
+  drawToMatch: boolean;    // keep drawing until a playable card turns up
+  forcePlay: boolean;      // a playable drawn card must be played
 }
 
 export interface Player {
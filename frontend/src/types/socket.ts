@@ -0,0 +1,270 @@
+import { z } from 'zod';
+import { ClockState, Game, GameStatus, GameType, Player, TimeControl, UnoHouseRules } from './index';
+
+// Socket contract shared with the game server. Every event carries one payload, and
+// each payload has a schema here; the types below are inferred from the schemas, so
+// the two can't drift apart. Incoming payloads are checked against them before any
+// listener sees them
+export enum SocketEvents {
+  // Connection events
+  CONNECT = 'connect',
+  DISCONNECT = 'disconnect',
+  ERROR = 'error',
+
+  // Room events
+  JOIN_ROOM = 'join-room',
+  LEAVE_ROOM = 'leave-room',
+  ROOM_JOINED = 'room-joined',
+  ROOM_LEFT = 'room-left',
+  RESUME_ROOM = 'resume-room',
+  ROOM_RESUMED = 'room-resumed',
+  ROOM_RESYNC = 'room-resync',
+
+  // Game events
+  FIND_GAME = 'find-game',
+  GAME_FOUND = 'game-found',
+  GAME_START = 'game-start',
+  GAME_UPDATE = 'game-update',
+  GAME_END = 'game-end',
+
+  // Player events
+  PLAYER_JOIN = 'player-join',
+  PLAYER_LEAVE = 'player-leave',
+  PLAYER_READY = 'player-ready',
+  PLAYER_MOVE = 'player-move',
+  PLAYER_TURN = 'player-turn',
+
+  // UNO events
+  UNO_CALLED = 'uno-called',
+  UNO_CHALLENGED = 'uno-challenged',
+
+  // Chat events
+  CHAT_MESSAGE = 'chat-message',
+  CHAT_TYPING = 'chat-typing',
+
+  // Spectator events
+  SPECTATOR_JOIN = 'spectator-join',
+  SPECTATOR_LEAVE = 'spectator-leave',
+}
+
+// Schemas for the shared types; the annotations keep them in step with types/index.ts
+const playerSchema: z.ZodType<Player> = z.object({
+  userId: z.string(),
+  username: z.string(),
+  isAI: z.boolean(),
+  isReady: z.boolean(),
+  color: z.string().optional()
+});
+
+const timeControlSchema: z.ZodType<TimeControl> = z.object({
+  mode: z.enum(['fischer', 'bronstein', 'simple-delay', 'per-move', 'correspondence']),
+  initial: z.number(),
+  increment: z.number().optional(),
+  delay: z.number().optional()
+});
+
+const clockSchema: z.ZodType<ClockState> = z.object({
+  remaining: z.record(z.number()),
+  running: z.string().optional(),
+  moveTime: z.number().optional(),
+  serverTime: z.number()
+});
+
+export const unoHouseRulesSchema: z.ZodType<UnoHouseRules> = z.object({
+  stackDrawTwo: z.boolean(),
+  stackDrawFour: z.boolean(),
+  jumpIn: z.boolean(),
+  sevenZero: z.boolean(),
+  drawToMatch: z.boolean(),
+  forcePlay: z.boolean()
+});
+
+// Dates arrive as ISO strings
+const gameSchema: z.ZodType<Game, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  type: z.nativeEnum(GameType),
+  status: z.nativeEnum(GameStatus),
+  players: z.array(playerSchema),
+  currentTurn: z.string().optional(),
+  winner: z.string().optional(),
+  startedAt: z.coerce.date().optional(),
+  endedAt: z.coerce.date().optional(),
+  timeLimit: z.number().optional(),
+  timeControl: timeControlSchema.optional(),
+  clock: clockSchema.optional(),
+  houseRules: unoHouseRulesSchema.optional()
+});
+
+// Mirrors GameOverResult. A game-end event is the game over by definition, so the
+// flag may be left out
+const gameOverSchema = z.object({
+  isOver: z.boolean().default(true),
+  winner: z.string().optional(),
+  isDraw: z.boolean().optional(),
+  reason: z.string().optional(),
+  scores: z.record(z.number()).optional(),
+  rounds: z.array(z.object({ round: z.number(), winner: z.string(), points: z.number() })).optional(),
+  seed: z.string().optional()
+});
+
+// Rules-engine state; its shape depends on the game, so it is checked against that game's
+// schema (gameLogicService.parseState) by whoever knows which game the room is playing
+const gameStateSchema = z.unknown();
+
+// The server numbers every event it sends to a room so a client that drops out can
+// ask for what it missed
+const roomEventSchema = z.object({
+  roomId: z.string(),
+  seq: z.number()
+});
+
+// Room and sequence number, on events sent to a room
+const roomScoped = {
+  roomId: z.string().optional(),
+  seq: z.number().optional()
+};
+
+export const serverEventSchemas = {
+  // Connection events
+  [SocketEvents.ERROR]: z.object({
+    message: z.string(),
+    // Set when the error turns down one of our moves
+    sequence: z.number().optional()
+  }),
+
+  // Room events; the join reply carries the room's latest sequence number
+  [SocketEvents.ROOM_JOINED]: roomEventSchema,
+  [SocketEvents.ROOM_LEFT]: z.object({ roomId: z.string() }),
+  // Reply to RESUME_ROOM: the events after the last one the client saw, in order
+  [SocketEvents.ROOM_RESUMED]: z.object({
+    roomId: z.string(),
+    events: z.array(z.object({ event: z.string(), data: z.unknown() }))
+  }),
+  // Reply to RESUME_ROOM when the missed events are no longer kept: the room as it is now
+  [SocketEvents.ROOM_RESYNC]: roomEventSchema.extend({
+    game: gameSchema.optional(),
+    gameState: gameStateSchema
+  }),
+
+  // Game events
+  [SocketEvents.GAME_FOUND]: gameSchema,
+  [SocketEvents.GAME_START]: z.object({
+    ...roomScoped,
+    gameState: gameStateSchema,
+    clock: clockSchema.optional()
+  }),
+  [SocketEvents.GAME_UPDATE]: z.object({
+    ...roomScoped,
+    game: gameSchema.optional(),
+    gameState: gameStateSchema,
+    // Sequence number of the last of our moves the update includes
+    sequence: z.number().optional(),
+    clock: clockSchema.optional()
+  }),
+  [SocketEvents.GAME_END]: gameOverSchema.extend({
+    ...roomScoped,
+    gameState: gameStateSchema
+  }),
+
+  // Player events
+  [SocketEvents.PLAYER_JOIN]: z.object({ ...roomScoped, player: playerSchema }),
+  [SocketEvents.PLAYER_LEAVE]: z.object({ ...roomScoped, playerId: z.string() }),
+  [SocketEvents.PLAYER_READY]: z.object({ ...roomScoped, playerId: z.string(), isReady: z.boolean() }),
+  [SocketEvents.PLAYER_TURN]: z.object({ ...roomScoped, playerId: z.string() }),
+
+  // UNO events
+  [SocketEvents.UNO_CALLED]: z.object({ ...roomScoped, playerId: z.string() }),
+  [SocketEvents.UNO_CHALLENGED]: z.object({
+    ...roomScoped,
+    playerId: z.string(),
+    targetPlayerId: z.string(),
+    penalty: z.number()
+  }),
+
+  // Chat events
+  [SocketEvents.CHAT_MESSAGE]: z.object({
+    roomId: z.string(),
+    userId: z.string(),
+    username: z.string(),
+    message: z.string(),
+    timestamp: z.number()
+  }),
+  [SocketEvents.CHAT_TYPING]: z.object({ roomId: z.string(), userId: z.string(), isTyping: z.boolean() }),
+
+  // Spectator events
+  [SocketEvents.SPECTATOR_JOIN]: z.object({ roomId: z.string(), userId: z.string(), username: z.string() }),
+  [SocketEvents.SPECTATOR_LEAVE]: z.object({ roomId: z.string(), userId: z.string() })
+};
+
+export const clientEventSchemas = {
+  // Room events
+  [SocketEvents.JOIN_ROOM]: z.string(),
+  [SocketEvents.LEAVE_ROOM]: z.string(),
+  [SocketEvents.RESUME_ROOM]: z.object({ roomId: z.string(), lastSeq: z.number() }),
+
+  // Game events
+  [SocketEvents.FIND_GAME]: z.object({ gameType: z.nativeEnum(GameType) }),
+
+  // Player events
+  [SocketEvents.PLAYER_READY]: z.object({ gameId: z.string(), isReady: z.boolean() }),
+  [SocketEvents.PLAYER_MOVE]: z.object({
+    gameId: z.string(),
+    // Checked against the game's move schema (gameLogicService.parseMove)
+    move: z.unknown(),
+    sequence: z.number().optional(),
+    timestamp: z.number().optional(),
+    // Set by the outbox; the server applies a move once however often it is resent
+    idempotencyKey: z.string().optional()
+  }),
+  // Claim that the player to move has run out of time
+  [SocketEvents.PLAYER_TURN]: z.object({ gameId: z.string(), timeout: z.boolean() }),
+
+  // Chat events
+  [SocketEvents.CHAT_MESSAGE]: z.object({ roomId: z.string(), message: z.string(), timestamp: z.number() }),
+  [SocketEvents.CHAT_TYPING]: z.object({ roomId: z.string(), isTyping: z.boolean() })
+};
+
+export type ServerEvent = keyof typeof serverEventSchemas;
+export type ClientEvent = keyof typeof clientEventSchemas;
+export type ServerEventPayload<E extends ServerEvent> = z.infer<(typeof serverEventSchemas)[E]>;
+export type ClientEventPayload<E extends ClientEvent> = z.input<(typeof clientEventSchemas)[E]>;
+
+export type RoomEventMeta = z.infer<typeof roomEventSchema>;
+export type RoomResumed = ServerEventPayload<SocketEvents.ROOM_RESUMED>;
+export type RoomResync = ServerEventPayload<SocketEvents.ROOM_RESYNC>;
+export type GameEnd = ServerEventPayload<SocketEvents.GAME_END>;
+export type ChatMessage = ServerEventPayload<SocketEvents.CHAT_MESSAGE>;
+
+// Reply the server acknowledges a queued message with
+export interface SocketAck {
+  error?: string;
+  [key: string]: unknown;
+}
+
+// Client events the server acknowledges
+export type AckedClientEvent = SocketEvents.PLAYER_MOVE;
+
+// Event maps in Socket.IO's form, for typing either end of the socket
+export type ServerToClientEvents = {
+  [E in ServerEvent]: (data: ServerEventPayload<E>) => void;
+};
+
+export type ClientToServerEvents = {
+  [E in ClientEvent]: E extends AckedClientEvent
+    ? (data: ClientEventPayload<E>, ack: (ack: SocketAck) => void) => void
+    : (data: ClientEventPayload<E>) => void;
+};
+
+export const isServerEvent = (event: string): event is ServerEvent =>
+  Object.prototype.hasOwnProperty.call(serverEventSchemas, event);
+
+// Check an incoming payload against its schema; malformed payloads are logged and
+// come back undefined so no listener has to cope with them
+export const parseServerEvent = <E extends ServerEvent>(event: E, data: unknown): ServerEventPayload<E> | undefined => {
+  const result = serverEventSchemas[event].safeParse(data);
+  if (!result.success) {
+    console.error(`Ignoring malformed ${event} payload:`, result.error.issues);
+    return undefined;
+  }
+  return result.data as ServerEventPayload<E>;
+};
@@ -0,0 +1,43 @@
+import { GameType } from '../types';
+import { aiService, AIDifficulty } from '../services/aiService';
+import { analysisService } from '../services/analysisService';
+import { gameLogicService } from '../services/gameLogicService';
+
+// States travel serialized, since UNO hands are kept in a Map
+export type AIWorkerRequest =
+  | { id: number; type: 'choose-move'; gameType: GameType; state: string; difficulty: AIDifficulty; playerId?: string }
+  | { id: number; type: 'analyze-game'; gameType: GameType; state: string; depth?: number };
+
+// A request gets any number of progress updates, then a result or an error
+export interface AIWorkerResponse {
+  id: number;
+  result?: unknown;
+  progress?: { analyzed: number; total: number };
+  error?: string;
+  done: boolean;
+}
+
+// The worker's global scope; it posts and receives messages the way a Worker does
+const ctx = globalThis as unknown as Worker;
+
+// Searching can take seconds on the harder levels, so it runs off the main thread
+ctx.onmessage = ({ data }: MessageEvent<AIWorkerRequest>) => {
+  const response: AIWorkerResponse = { id: data.id, done: true };
+
+  try {
+    const state = gameLogicService.deserialize(data.gameType, data.state);
+
+    if (data.type === 'choose-move') {
+      response.result = aiService.chooseMove(data.gameType, state, data.difficulty, data.playerId);
+    } else {
+      response.result = analysisService.analyzeGame(data.gameType, state, {
+        depth: data.depth,
+        onProgress: (analyzed, total) => ctx.postMessage({ id: data.id, progress: { analyzed, total }, done: false })
+      });
+    }
+  } catch (error: unknown) {
+    response.error = error instanceof Error && error.message ? error.message : 'AI request failed';
+  }
+
+  ctx.postMessage(response);
+};
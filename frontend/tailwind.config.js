@@ -17,6 +17,9 @@ module.exports = {
           uno: '#E63946',
           chess: '#2A9D8F',
           card: '#F4A261',
+          'connect-four': '#1D4ED8',
+          caro: '#E9C46A',
+          xiangqi: '#9B2226',
         }
       },
       fontFamily: {